@@ -10,7 +10,10 @@ import { SuccessResponse } from './utils/response';
 import { setupErrorHandlers } from './middleware/errorHandler';
 import DatabaseFactory, { getDatabaseHealth } from './config/database';
 import { CacheService } from './services/core/cache';
+import contentService from './services/core/ai/anthropic/anthropic.service';
 import routes from './routes';
+import { planService } from './services/plan.service';
+import { jobQueueService } from './services/jobQueue.service';
 
 class App {
   public app: Application;
@@ -109,6 +112,7 @@ class App {
     this.app.get('/health', async (req: Request, res: Response) => {
       const health = await getDatabaseHealth();
       const cacheHealth = CacheService.getHealth();
+      const aiHealth = contentService.getHealth();
       
       SuccessResponse(res, 'Backend Template API is running', {
         timestamp: new Date().toISOString(),
@@ -117,7 +121,8 @@ class App {
         version: process.env.npm_package_version || '1.0.0',
         services: {
           database: health,
-          cache: cacheHealth
+          cache: cacheHealth,
+          ai: aiHealth
         }
       });
     });
@@ -127,6 +132,7 @@ class App {
       const health = await getDatabaseHealth();
       const cacheHealth = CacheService.getHealth();
       const cacheStats = CacheService.getCacheStats();
+      const aiHealth = contentService.getHealth();
       
       SuccessResponse(res, 'API is healthy', {
         timestamp: new Date().toISOString(),
@@ -138,6 +144,10 @@ class App {
             hitRate: cacheStats.hitRate + '%',
             keys: cacheStats.keys
           },
+          ai: {
+            status: aiHealth.status,
+            circuitBreaker: aiHealth.circuitBreaker.state
+          },
         }
       });
     });
@@ -168,6 +178,12 @@ class App {
       await DatabaseFactory.connect();
       logger.info('Database connected successfully');
 
+      // Create the default subscription plans on first start
+      await planService.seedDefaultPlans();
+
+      // Recover jobs interrupted by a crash and start processing queued ones
+      await jobQueueService.start();
+
       // Start the server
       const server = this.app.listen(this.port, () => {
         logger.info(`Backend Template API server started successfully`);
@@ -218,6 +234,9 @@ class App {
     logger.info(`Graceful shutdown initiated by ${signal}`);
     
     try {
+      // Stop taking jobs; any still running are recovered on the next start
+      jobQueueService.stop();
+
       // Close database connections
       await DatabaseFactory.disconnect();
       logger.info('Database connections closed');
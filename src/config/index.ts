@@ -1,9 +1,42 @@
 import { config as dotEnvConfig } from 'dotenv';
+import { hostname } from 'os';
 import { PromptType } from '../constants/prompts';
+import { AI_MODEL_PRICING } from '../utils/constants';
 
 // Load environment variables
 dotEnvConfig();
 
+/**
+ * Problems found while loading the config
+ * The logger is configured from this file, so it logs them once it has been created
+ */
+export const configWarnings: string[] = [];
+
+/**
+ * Parse a JSON env variable, falling back when it's missing or invalid
+ */
+const parseJsonEnv = <T>(name: string, fallback: T): T => {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    configWarnings.push(`Ignoring invalid JSON in ${name}`);
+    return fallback;
+  }
+};
+
+/**
+ * Parse an optional USD budget; empty, 0 or invalid means no limit
+ */
+const parseBudgetEnv = (value: string | undefined): number | null => {
+  const budget = Number(value);
+  return value && budget > 0 ? budget : null;
+};
+
 export interface DatabaseConfig {
   type: 'mongodb';
   mongodb: {
@@ -23,6 +56,7 @@ export interface AppConfig {
   port: number;
   env: string;
   corsOrigin: string;
+  frontendUrl: string;
 }
 
 export interface JWTConfig {
@@ -43,6 +77,69 @@ export interface SecurityConfig {
   rateLimitMax: number;
 }
 
+export interface MailConfig {
+  provider: string;
+  from: string;
+  fromName: string;
+  fileDir: string;
+}
+
+export interface UsageConfig {
+  counterStore: string;
+  trialLimit: number;
+  windowType: 'fixed' | 'rolling';
+}
+
+export interface ChatConfig {
+  // Days a deleted analysis can be restored before it's purged
+  retentionDays: number;
+}
+
+export interface BatchConfig {
+  // Items one batch analysis request can contain
+  maxItems: number;
+  // Items of a batch analyzed at the same time
+  concurrency: number;
+}
+
+export interface WebhookConfig {
+  maxPerUser: number;
+  // Delivery attempts before a delivery is marked failed; retries back off exponentially
+  maxAttempts: number;
+  timeoutMs: number;
+  // Days delivery logs are kept
+  deliveryRetentionDays: number;
+}
+
+export interface JobConfig {
+  // Names this server's worker across restarts, so it can recover the jobs it left processing
+  workerId: string;
+  // Jobs one process runs at the same time
+  concurrency: number;
+  pollIntervalMs: number;
+  // A job locked for longer is taken to belong to a dead worker and is queued again
+  lockTimeoutMs: number;
+  // Days finished jobs are kept for status polling
+  retentionDays: number;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface CostConfig {
+  // Keyed by model name prefix, "default" for anything else
+  pricing: Record<string, ModelPricing>;
+  webSearchPerThousand: number;
+  // USD per UTC month across all users, null for no limit
+  globalMonthlyBudgetUsd: number | null;
+  onBudgetExhausted: 'refuse' | 'downgrade';
+  downgradeModel: string;
+  // Fractions of a budget that trigger an audit alert when first crossed
+  alertThresholds: number[];
+}
+
 export interface LoggingConfig {
   level: string;
   file: string;
@@ -53,6 +150,18 @@ export interface AIConfig {
     apiKey: string;
     model: string;
     mock: boolean;
+    // Per-attempt request timeout of each prompt type, in ms
+    timeouts: Record<PromptType, number>;
+    retry: {
+      maxRetries: number;
+      baseDelayMs: number;
+      maxDelayMs: number;
+    };
+    circuitBreaker: {
+      // Consecutive failed calls (after retries) that open the circuit
+      failureThreshold: number;
+      resetTimeoutMs: number;
+    };
   };
 }
 
@@ -70,6 +179,7 @@ export const config = {
     port: parseInt(process.env.PORT || '3000'),
     env: process.env.NODE_ENV || 'development',
     corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
+    frontendUrl: process.env.FRONTEND_URL || process.env.CORS_ORIGIN || 'http://localhost:3000',
   } as AppConfig,
 
   database: {
@@ -105,6 +215,59 @@ export const config = {
     rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '100'),
   } as SecurityConfig,
 
+  mail: {
+    provider: process.env.EMAIL_PROVIDER || 'console',
+    from: process.env.FROM_EMAIL || 'noreply@buflite.app',
+    fromName: process.env.FROM_NAME || 'Buflite',
+    fileDir: process.env.MAIL_FILE_DIR || 'tmp/mail',
+  } as MailConfig,
+
+  usage: {
+    counterStore: process.env.USAGE_COUNTER_STORE || 'mongo',
+    trialLimit: Number(process.env.CONTENT_TRIAL_LIMIT) || 5,
+    windowType: process.env.TRIAL_WINDOW_TYPE === 'fixed' ? 'fixed' : 'rolling',
+  } as UsageConfig,
+
+  chats: {
+    retentionDays: Number(process.env.CHAT_RETENTION_DAYS) || 30,
+  } as ChatConfig,
+
+  batch: {
+    maxItems: Number(process.env.BATCH_MAX_ITEMS) || 20,
+    concurrency: Number(process.env.BATCH_CONCURRENCY) || 3,
+  } as BatchConfig,
+
+  jobs: {
+    workerId: process.env.JOB_WORKER_ID || hostname(),
+    concurrency: Number(process.env.JOB_CONCURRENCY) || 2,
+    pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS) || 2000,
+    lockTimeoutMs: Number(process.env.JOB_LOCK_TIMEOUT_MS) || 15 * 60 * 1000,
+    retentionDays: Number(process.env.JOB_RETENTION_DAYS) || 7,
+  } as JobConfig,
+
+  webhooks: {
+    maxPerUser: Number(process.env.WEBHOOK_MAX_PER_USER) || 10,
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6,
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000,
+    deliveryRetentionDays: Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS) || 30,
+  } as WebhookConfig,
+
+  costs: {
+    pricing: {
+      ...AI_MODEL_PRICING,
+      ...parseJsonEnv<Record<string, ModelPricing>>('AI_MODEL_PRICING', {}),
+    },
+    webSearchPerThousand: Number(process.env.AI_WEB_SEARCH_PRICE_PER_1000) || 10,
+    globalMonthlyBudgetUsd: parseBudgetEnv(process.env.AI_GLOBAL_MONTHLY_BUDGET_USD),
+    onBudgetExhausted: process.env.AI_BUDGET_EXHAUSTED_ACTION === 'refuse' ? 'refuse' : 'downgrade',
+    downgradeModel: process.env.AI_BUDGET_DOWNGRADE_MODEL || 'claude-3-haiku-20240307',
+    alertThresholds: (process.env.AI_BUDGET_ALERT_THRESHOLDS || '0.8,1')
+      .split(',')
+      .map(Number)
+      .filter(threshold => threshold > 0)
+      .sort((a, b) => a - b),
+  } as CostConfig,
+
   logging: {
     level: process.env.LOG_LEVEL || 'info',
     file: process.env.LOG_FILE || 'logs/app.log',
@@ -115,6 +278,23 @@ export const config = {
       apiKey: process.env.ANTHROPIC_API_KEY || '',
       model: process.env.ANTHROPIC_MODEL || 'claude-2',
       mock: process.env.ANTHROPIC_USE_MOCK_DATA === 'true',
+      timeouts: {
+        [PromptType.CONTENT]: 60000,
+        [PromptType.VIDEO]: 90000,
+        // Trends use web search, which takes longer
+        [PromptType.DASHBOARD]: 180000,
+        [PromptType.COMPARISON]: 90000,
+        ...parseJsonEnv<Partial<Record<PromptType, number>>>('ANTHROPIC_TIMEOUTS_MS', {}),
+      },
+      retry: {
+        maxRetries: Number(process.env.ANTHROPIC_MAX_RETRIES ?? 3),
+        baseDelayMs: Number(process.env.ANTHROPIC_RETRY_BASE_DELAY_MS) || 1000,
+        maxDelayMs: Number(process.env.ANTHROPIC_RETRY_MAX_DELAY_MS) || 30000,
+      },
+      circuitBreaker: {
+        failureThreshold: Number(process.env.ANTHROPIC_BREAKER_FAILURE_THRESHOLD) || 5,
+        resetTimeoutMs: Number(process.env.ANTHROPIC_BREAKER_RESET_MS) || 30000,
+      },
     },
   } as AIConfig,
 
@@ -131,6 +311,19 @@ export const config = {
       systemPrompt: process.env.DASHBOARD_SYSTEM_PROMPT || 'Analyze the dashboard data provided.',
       userPrompt: process.env.DASHBOARD_USER_PROMPT || 'Please analyze this dashboard data.',
     },
+    [PromptType.COMPARISON]: {
+      systemPrompt:
+        process.env.COMPARISON_SYSTEM_PROMPT ||
+        'You compare variants of the same social media post and predict how each will perform. ' +
+          'Respond with only a JSON object: {"variants": [{"variant": <number>, "scores": ' +
+          '{"sentiment": <-1 to 1>, "virality": <0 to 1>, "quality": <0 to 1>}, "strengths": ' +
+          '[<string>], "weaknesses": [<string>]}], "dimensions": {"sentiment": <string>, ' +
+          '"virality": <string>, "quality": <string>}, "summary": <string>, "merged_rewrite": ' +
+          '{"content": <string>, "rationale": <string>, "borrowed": [{"variant": <number>, ' +
+          '"element": <string>}]}}. Score every variant; the merged rewrite combines the best of each.',
+      userPrompt:
+        process.env.COMPARISON_USER_PROMPT || 'Compare these variants of the same post:\n\n{{CONTENT}}',
+    },
   }
 };
 
@@ -2043,3 +2043,57 @@ export const dashboardMock = {
   }
 }
 
+
+// Scores five variants, so it covers any comparison; variants that weren't sent are ignored
+export const comparisonMock = {
+  variants: [
+    {
+      variant: 1,
+      scores: { sentiment: 0.35, virality: 0.42, quality: 0.71 },
+      strengths: ['Clear call to action', 'Concise'],
+      weaknesses: ['Generic opening line', 'No hashtags'],
+    },
+    {
+      variant: 2,
+      scores: { sentiment: 0.62, virality: 0.58, quality: 0.66 },
+      strengths: ['Personal story hooks the reader', 'Warm tone'],
+      weaknesses: ['Call to action is buried at the end'],
+    },
+    {
+      variant: 3,
+      scores: { sentiment: 0.2, virality: 0.67, quality: 0.74 },
+      strengths: ['Strong question as the hook', 'Relevant trending hashtag'],
+      weaknesses: ['Slightly combative tone'],
+    },
+    {
+      variant: 4,
+      scores: { sentiment: 0.48, virality: 0.39, quality: 0.81 },
+      strengths: ['Best structure and grammar'],
+      weaknesses: ['Reads like an advert', 'Too long for the platform'],
+    },
+    {
+      variant: 5,
+      scores: { sentiment: 0.55, virality: 0.51, quality: 0.6 },
+      strengths: ['Good use of emoji'],
+      weaknesses: ['Message is unclear until the last sentence'],
+    },
+  ],
+  dimensions: {
+    sentiment: 'Variants that open with a personal story read as the most positive.',
+    virality: 'A question in the first line and a trending hashtag drive predicted shares.',
+    quality: 'Shorter sentences and a single clear message score highest.',
+  },
+  summary:
+    'The question-led variant is most likely to spread, while the story-led variant feels the warmest.',
+  merged_rewrite: {
+    content:
+      'Ever wondered why your mornings feel rushed? Last month I tried one small change and got an hour back every day. Here is how you can too 👇 #MorningRoutine',
+    rationale:
+      'Keeps the question hook and hashtag of the most viral variant, the personal story of the warmest one and the clear call to action of the first.',
+    borrowed: [
+      { variant: 3, element: 'Opening question and hashtag' },
+      { variant: 2, element: 'Personal story' },
+      { variant: 1, element: 'Call to action' },
+    ],
+  },
+};
@@ -2,4 +2,5 @@ export enum PromptType {
     CONTENT = 'content',
     VIDEO = 'video',
     DASHBOARD = 'dashboard',
+    COMPARISON = 'comparison',
 }
\ No newline at end of file
@@ -0,0 +1,552 @@
+import { NextFunction, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { IUser, User } from '../models';
+import { auditLog } from '../services/auditLog.service';
+import { planService } from '../services/plan.service';
+import { tokenService } from '../services/token.service';
+import { trialLimitService } from '../services/trialLimit.service';
+import { userService } from '../services/user.service';
+import { webhookService } from '../services/webhook.service';
+import { ChangeBudgetRequestDTO, ChangePlanRequestDTO, ChangeRoleRequestDTO } from '../types/auth';
+import { QUOTA_CONTENT_TYPES, USER_PERMISSIONS } from '../utils/constants';
+import { AuthorizationError, NotFoundError, RequestError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { buildPaginationMeta, parsePagination } from '../utils/pagination';
+import { hasPermission, isValidRole, outranks } from '../utils/permissions';
+import { SuccessResponse } from '../utils/response';
+import { sanitizers } from '../utils/validation';
+
+/**
+ * Admin Controller
+ * Handles administrative operations on user accounts
+ * All routes are restricted to admins
+ */
+
+/**
+ * Load the user targeted by the :id route param
+ */
+const findTargetUser = async (id: string): Promise<IUser> => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new NotFoundError('User not found');
+  }
+
+  const user = await User.findById(id);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user;
+};
+
+/**
+ * Admins can't act on themselves or on users ranked at or above them
+ */
+const assertCanManage = (req: Request, user: IUser): void => {
+  if (user._id.toString() === req.userId) {
+    throw new AuthorizationError('You cannot perform this action on your own account');
+  }
+
+  if (!outranks(req.user!.role, user.role)) {
+    throw new AuthorizationError('You can only manage users ranked below your own role');
+  }
+};
+
+/**
+ * Shape returned for users in admin endpoints
+ */
+const toAdminUserResponse = (user: IUser) => ({
+  id: user._id.toString(),
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: user.role,
+  plan: user.plan,
+  isActive: user.isActive,
+  isEmailVerified: user.isEmailVerified,
+  isLocked: user.isAccountLocked(),
+  loginAttempts: user.loginAttempts,
+  lockUntil: user.lockUntil,
+  lastLoginAt: user.lastLoginAt,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+const USER_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'lastLoginAt',
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+];
+const TRIAL_CONTENT_TYPES: string[] = [...QUOTA_CONTENT_TYPES];
+
+/**
+ * Parse an optional boolean query filter ("true" / "false")
+ */
+const parseBooleanFilter = (value: unknown): boolean | undefined => {
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  return undefined;
+};
+
+export class AdminController {
+  /**
+   * List users with pagination, search and filters
+   * Query: page, limit, sort, order, search (email or name), role, isActive, isEmailVerified
+   */
+  static listUsers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { page, limit, skip, sort } = parsePagination(req.query, USER_SORT_FIELDS);
+      const { search, role } = req.query;
+      const filter: Record<string, unknown> = {};
+
+      if (typeof search === 'string' && search.trim()) {
+        const pattern = new RegExp(sanitizers.escapeRegex(search.trim()), 'i');
+        filter.$or = [{ email: pattern }, { firstName: pattern }, { lastName: pattern }];
+      }
+
+      if (role !== undefined) {
+        if (!isValidRole(role)) {
+          throw new RequestError('Invalid role filter');
+        }
+        filter.role = role;
+      }
+
+      const isActive = parseBooleanFilter(req.query.isActive);
+      if (isActive !== undefined) {
+        filter.isActive = isActive;
+      }
+
+      const isEmailVerified = parseBooleanFilter(req.query.isEmailVerified);
+      if (isEmailVerified !== undefined) {
+        filter.isEmailVerified = isEmailVerified;
+      }
+
+      const [users, total] = await Promise.all([
+        User.find(filter).sort(sort).skip(skip).limit(limit),
+        User.countDocuments(filter),
+      ]);
+
+      SuccessResponse(res, 'Users retrieved successfully', {
+        users: users.map(toAdminUserResponse),
+        meta: buildPaginationMeta(page, limit, total),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a single user, including their plan and current quota usage
+   */
+  static getUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await findTargetUser(req.params.id);
+      const userId = user._id.toString();
+      const plan = await planService.getPlanForUser(userId);
+
+      const usage = await Promise.all(
+        TRIAL_CONTENT_TYPES.map(type => trialLimitService.getUsage(userId, type, plan))
+      );
+
+      SuccessResponse(res, 'User retrieved successfully', {
+        ...toAdminUserResponse(user),
+        plan: plan.name,
+        trials: Object.fromEntries(
+          usage.map(({ contentType, daily, monthly, remaining }) => [
+            contentType,
+            { daily, monthly, remaining },
+          ])
+        ),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reactivate a deactivated account
+   */
+  static activateUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+
+      if (user.isActive) {
+        throw new RequestError('User is already active');
+      }
+
+      user.isActive = true;
+      await user.save();
+
+      userService.invalidateUser(user._id.toString());
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_ACTIVATED',
+        `User activated by admin: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+        }
+      );
+
+      SuccessResponse(res, 'User activated successfully', toAdminUserResponse(user));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Deactivate an account and end all of its sessions
+   */
+  static deactivateUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+
+      if (!user.isActive) {
+        throw new RequestError('User is already inactive');
+      }
+
+      user.isActive = false;
+      await user.save();
+
+      await tokenService.revokeAllSessions(user._id.toString());
+      const webhooksDisabled = await webhookService.disableWebhooksOfUser(user._id.toString());
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_DEACTIVATED',
+        `User deactivated by admin: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+          reason: req.body?.reason,
+          webhooksDisabled,
+        }
+      );
+
+      logger.info('User deactivated by admin', {
+        adminId: req.userId,
+        userId: user._id.toString(),
+      });
+
+      SuccessResponse(res, 'User deactivated successfully', toAdminUserResponse(user));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Revoke every session of a user
+   */
+  static forceLogout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+
+      await tokenService.revokeAllSessions(user._id.toString());
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_FORCE_LOGOUT',
+        `User logged out by admin: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+        }
+      );
+
+      SuccessResponse(res, 'User logged out of all sessions');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reset a user's daily and monthly content analysis counts
+   * Body: { type?: 'content' | 'video' } - resets every type when omitted
+   */
+  static resetTrialLimit = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { type } = req.body || {};
+
+      if (type !== undefined && !TRIAL_CONTENT_TYPES.includes(type)) {
+        throw new RequestError(`Type must be one of: ${TRIAL_CONTENT_TYPES.join(', ')}`);
+      }
+
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+      const userId = user._id.toString();
+      const types: string[] = type ? [type] : TRIAL_CONTENT_TYPES;
+
+      await Promise.all(
+        types.map(contentType => trialLimitService.resetCount(userId, contentType))
+      );
+
+      await auditLog.logFromRequest(
+        req,
+        'TRIAL_LIMIT_RESET',
+        `Trial limit reset by admin: ${user.email}`,
+        {
+          targetUserId: userId,
+          targetEmail: user.email,
+          types,
+        }
+      );
+
+      SuccessResponse(res, 'Trial limit reset successfully', {
+        id: userId,
+        types,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Unlock an account locked after repeated failed logins
+   */
+  static unlockUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+      const wasLocked = user.isAccountLocked();
+      const previousAttempts = user.loginAttempts;
+
+      await user.resetLoginAttempts();
+
+      await auditLog.logFromRequest(
+        req,
+        'ACCOUNT_UNLOCKED',
+        `Account unlocked by admin: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+          wasLocked,
+          previousAttempts,
+        }
+      );
+
+      logger.info('Account unlocked by admin', {
+        adminId: req.userId,
+        userId: user._id.toString(),
+      });
+
+      SuccessResponse(res, 'Account unlocked successfully', {
+        id: user._id.toString(),
+        email: user.email,
+        loginAttempts: user.loginAttempts,
+        isLocked: false,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Change a user's role
+   * Admins can only manage users ranked below them and assign roles ranked below their own
+   */
+  static changeUserRole = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { role } = req.body as ChangeRoleRequestDTO;
+      const actorRole = req.user!.role;
+
+      if (!isValidRole(role)) {
+        throw new RequestError('A valid role is required');
+      }
+
+      const user = await findTargetUser(req.params.id);
+      const previousRole = user.role;
+
+      assertCanManage(req, user);
+
+      if (!outranks(actorRole, role)) {
+        throw new AuthorizationError('You can only assign roles ranked below your own');
+      }
+
+      if (previousRole === role) {
+        throw new RequestError(`User already has the ${role} role`);
+      }
+
+      user.role = role;
+      await user.save();
+
+      userService.invalidateUser(user._id.toString());
+
+      // Only admins can receive every user's events
+      const webhooksDisabled = hasPermission(role, USER_PERMISSIONS.ADMIN)
+        ? 0
+        : await webhookService.disableWebhooksOfUser(user._id.toString(), 'all');
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_ROLE_CHANGED',
+        `Role changed from ${previousRole} to ${role}: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+          previousRole,
+          newRole: role,
+          webhooksDisabled,
+        }
+      );
+
+      logger.info('User role changed by admin', {
+        adminId: req.userId,
+        userId: user._id.toString(),
+        previousRole,
+        newRole: role,
+      });
+
+      SuccessResponse(res, 'User role updated successfully', {
+        id: user._id.toString(),
+        email: user.email,
+        role: user.role,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Move a user to another plan
+   * Quota usage carries over, so only the limits change
+   */
+  static changeUserPlan = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { plan: planName } = req.body as ChangePlanRequestDTO;
+
+      if (!planName || typeof planName !== 'string') {
+        throw new RequestError('A plan is required');
+      }
+
+      const plan = await planService.getPlan(planName);
+      if (!plan || !plan.isActive) {
+        throw new RequestError(`Unknown or inactive plan: ${planName}`);
+      }
+
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+      const previousPlan = user.plan;
+
+      if (previousPlan === plan.name) {
+        throw new RequestError(`User is already on the ${plan.name} plan`);
+      }
+
+      user.plan = plan.name;
+      await user.save();
+
+      userService.invalidateUser(user._id.toString());
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_PLAN_CHANGED',
+        `Plan changed from ${previousPlan} to ${plan.name}: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+          previousPlan,
+          newPlan: plan.name,
+        }
+      );
+
+      logger.info('User plan changed by admin', {
+        adminId: req.userId,
+        userId: user._id.toString(),
+        previousPlan,
+        newPlan: plan.name,
+      });
+
+      SuccessResponse(res, 'User plan updated successfully', {
+        id: user._id.toString(),
+        email: user.email,
+        plan: user.plan,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Set a user's monthly AI spend budget in USD, or null to use their plan's per-user budget
+   */
+  static changeUserBudget = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { monthlyBudgetUsd } = req.body as ChangeBudgetRequestDTO;
+
+      if (
+        monthlyBudgetUsd !== null &&
+        (typeof monthlyBudgetUsd !== 'number' ||
+          !Number.isFinite(monthlyBudgetUsd) ||
+          monthlyBudgetUsd < 0)
+      ) {
+        throw new RequestError('monthlyBudgetUsd must be a non-negative number or null');
+      }
+
+      const user = await findTargetUser(req.params.id);
+      assertCanManage(req, user);
+      const previousBudget = user.monthlyBudgetUsd ?? null;
+
+      user.monthlyBudgetUsd = monthlyBudgetUsd;
+      await user.save();
+
+      userService.invalidateUser(user._id.toString());
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_BUDGET_CHANGED',
+        `Monthly AI budget changed from ${previousBudget ?? 'plan default'} to ${monthlyBudgetUsd ?? 'plan default'}: ${user.email}`,
+        {
+          targetUserId: user._id.toString(),
+          targetEmail: user.email,
+          previousBudget,
+          newBudget: monthlyBudgetUsd,
+        }
+      );
+
+      logger.info('User budget changed by admin', {
+        adminId: req.userId,
+        userId: user._id.toString(),
+        previousBudget,
+        newBudget: monthlyBudgetUsd,
+      });
+
+      SuccessResponse(res, 'User budget updated successfully', {
+        id: user._id.toString(),
+        email: user.email,
+        monthlyBudgetUsd: user.monthlyBudgetUsd ?? null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
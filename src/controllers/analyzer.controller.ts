@@ -1,79 +1,685 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
+import config from '../config';
 import { PromptType } from '../constants';
-import { ChatModel } from '../models/mongodb/Chats';
+import { JobStatus } from '../models/mongodb/Job';
+import { analysisJobService } from '../services/analysisJob.service';
+import { BudgetCheck, budgetService } from '../services/budget.service';
 import contentService from '../services/core/ai/anthropic/anthropic.service';
-import { trialLimitService } from '../services/trialLimit.service';
-import { ErrorResponse, SuccessResponse } from '../utils/response';
+import { AnalysisProgressEvent, AnalysisResult } from '../services/core/ai/anthropic/types';
+import { PlanDefinition, planService } from '../services/plan.service';
+import { QuotaReservation, trialLimitService } from '../services/trialLimit.service';
+import { AnalysisScores } from '../types/analysis';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  COMPARISON_VARIANTS,
+  PLAN_FEATURES,
+  QUOTA_CONTENT_TYPES,
+  QuotaContentType
+} from '../utils/constants';
+import { AnalysisOutputError, AuthenticationError, ServiceError } from '../utils/errors';
+import { generateCacheKey } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+import {
+  AcceptedResponse,
+  ErrorResponse,
+  ForbiddenResponse,
+  ServiceUnavailableResponse,
+  SuccessResponse
+} from '../utils/response';
+import { openEventStream, sendEvent } from '../utils/sse';
 
 
-export async function analyzeContent(req: Request, res: Response) {
-  const { content, type } = req.body;
+interface PlanAccess {
+  budget: BudgetCheck;
+  downgraded: boolean;
+  useTooling: boolean;
+}
+
+interface PreparedAnalysis extends PlanAccess {
+  content: string;
+  contentType: string;
+  userId: string;
+  plan: PlanDefinition;
+  reservation: QuotaReservation;
+}
+
+/**
+ * The authenticated user; these routes run after authenticateToken, so a missing user is a bug
+ */
+function getUserId(req: Request): string {
+  if (!req.userId) {
+    throw new AuthenticationError('Authentication required');
+  }
+  return req.userId;
+}
+
+/**
+ * Why content can't be analyzed on the plan, or null if it can
+ */
+function getContentError(content: unknown, plan: PlanDefinition): string | null {
+  if (!content || typeof content !== 'string') {
+    return 'Content is required for analysis';
+  } else if (content.length < 20) {
+    return 'Content must be at least 20 characters long';
+  } else if (content.length > plan.maxContentLength) {
+    return `Content must not exceed ${plan.maxContentLength} characters on the ${plan.displayName} plan`;
+  }
+
+  return null;
+}
+
+/**
+ * Check web search against the plan and apply spend budgets
+ * Sends the error response and returns null when no analysis can go ahead
+ */
+async function checkPlanAccess(
+  res: Response,
+  userId: string,
+  plan: PlanDefinition,
+  webSearch: unknown
+): Promise<PlanAccess | null> {
+  if (webSearch === true && !planService.hasFeature(plan, PLAN_FEATURES.WEB_SEARCH)) {
+    ForbiddenResponse(res, `Web search is not available on the ${plan.displayName} plan`);
+    return null;
+  }
+
+  // Refuse, or fall back to a cheaper model without web search, once a spend budget runs out
+  const budget = await budgetService.checkBudget(userId, plan);
+  if (budget.action === 'refuse') {
+    ErrorResponse(res, 'The AI spend budget for this month has been reached.', {
+      budgets: budget.exhausted,
+    });
+    return null;
+  }
+  const downgraded = budget.action === 'downgrade';
+
+  return { budget, downgraded, useTooling: webSearch === true && !downgraded };
+}
+
+/**
+ * Error message and details for a try the plan's quotas refused
+ */
+function getQuotaFailure(reservation: QuotaReservation, plan: PlanDefinition) {
+  const { usage } = reservation;
+  const period = reservation.exceeded || 'daily';
+
+  return {
+    message: `You have reached the ${period} content analysis limit of ${usage[period].limit} tries on the ${plan.displayName} plan.`,
+    details: {
+      remainingTrials: 0,
+      trialLimit: usage.daily.limit,
+      monthlyLimit: usage.monthly.limit,
+      plan: plan.name,
+      timeUntilReset: usage[period].resetAt
+        ? Math.max(0, usage[period].resetAt.getTime() - Date.now())
+        : null
+    }
+  };
+}
+
+/**
+ * Validate an analysis request, apply spend budgets and reserve a try against the plan's quotas
+ * Sends the error response and returns null when the analysis can't go ahead
+ */
+async function prepareAnalysis(req: Request, res: Response): Promise<PreparedAnalysis | null> {
+  const { content, type, webSearch } = req.body;
   const contentType = type || 'content'; // can be video
-  const userId = (req as any).userId || 'anonymous';
+  const userId = getUserId(req);
+
+  if (!QUOTA_CONTENT_TYPES.includes(contentType)) {
+    ErrorResponse(res, `type must be one of: ${QUOTA_CONTENT_TYPES.join(', ')}`);
+    return null;
+  }
+
+  const plan = await planService.getPlanForUser(userId);
 
   // Input validation
-  if (!content) {
-    return ErrorResponse(res, 'Content is required for analysis');
-  } else if (content.length < 20) {
-    return ErrorResponse(res, 'Content must be at least 20 characters long');
-  } else if (content.length > 10000) {
-    return ErrorResponse(res, 'Content must not exceed 10000 characters');
-  }
-
-  // Check trial limits
-  if (trialLimitService.checkLimit(userId, contentType)) {
-    const trialLimit = trialLimitService.getTrialLimit();
-    return ErrorResponse(
-      res,
-      `You have reached the content analysis limit of ${trialLimit} tries. Limits are reset every 24 hours.`,
-      { 
-        remainingTrials: 0,
-        trialLimit,
-        timeUntilReset: trialLimitService.getTimeUntilReset(userId, contentType)
-      }
-    );
+  const contentError = getContentError(content, plan);
+  if (contentError) {
+    ErrorResponse(res, contentError);
+    return null;
+  }
+
+  const access = await checkPlanAccess(res, userId, plan, webSearch);
+  if (!access) {
+    return null;
+  }
+
+  // Reserve one try against the plan's daily and monthly quotas before calling the AI
+  const reservation = await trialLimitService.reserve(userId, contentType, plan);
+  if (!reservation.accepted) {
+    const { message, details } = getQuotaFailure(reservation, plan);
+    ErrorResponse(res, message, details);
+    return null;
+  }
+
+  return { content, contentType, userId, plan, ...access, reservation };
+}
+
+function runAnalysis(
+  req: Request,
+  prepared: PreparedAnalysis,
+  onProgress?: (event: AnalysisProgressEvent) => void
+): Promise<AnalysisResult> {
+  const { content, contentType, userId, plan, budget, useTooling } = prepared;
+  const isVideo = contentType === 'video' ? PromptType.VIDEO : PromptType.CONTENT;
+
+  // Call service with caching enabled by default
+  return contentService.analyzeContent(req, content, isVideo, {
+    cacheFirst: true,
+    userId,
+    plan: plan.name,
+    contentType,
+    useTooling,
+    model: budget.model,
+    onProgress,
+    cacheConfig: {
+      ttl: 3600, // Cache for 1 hour
+      enabled: true
+    }
+  });
+}
+
+/**
+ * Analysis result with additional metadata
+ */
+function toAnalysisResponse(result: AnalysisResult, prepared: PreparedAnalysis) {
+  const { content, contentType, userId, plan, downgraded, reservation } = prepared;
+  const { usage } = reservation;
+
+  return {
+    ...result,
+    content,
+    type: contentType,
+    metadata: {
+      remainingTrials: usage.remaining,
+      trialLimit: usage.daily.limit,
+      monthlyLimit: usage.monthly.limit,
+      plan: plan.name,
+      downgraded,
+      contentType,
+      userId
+    }
+  };
+}
+
+/**
+ * Message shown for a failed analysis
+ */
+function getFailureMessage(error: unknown): string {
+  return error instanceof ServiceError
+    ? error.message
+    : error instanceof AnalysisOutputError
+      ? 'The analysis could not be completed, please try again'
+      : 'Failed to analyze content';
+}
+
+/**
+ * Give back the try of a failed analysis
+ * Errors are logged rather than thrown, so they don't replace the analysis error
+ */
+async function releaseReservation(reservation: QuotaReservation): Promise<void> {
+  try {
+    await trialLimitService.release(reservation);
+  } catch (error) {
+    logger.error('Failed to release quota reservation', {
+      userId: reservation.userId,
+      contentType: reservation.contentType,
+      error: error instanceof Error ? error.message : error
+    });
   }
+}
 
+/**
+ * Tries left, or null when they can't be read (e.g. while reporting another failure)
+ */
+async function getRemainingTrials(userId: string, contentType: string): Promise<number | null> {
   try {
-    const isVideo = contentType === 'video' ? PromptType.VIDEO : PromptType.CONTENT;
-    // Call service with caching enabled by default
-    const result = await contentService.analyzeContent(req, content, isVideo, {
-      cacheFirst: true,
+    return await trialLimitService.getRemainingTrials(userId, contentType);
+  } catch (error) {
+    logger.warn('Failed to read remaining trials', {
       userId,
       contentType,
-      cacheConfig: {
-        ttl: 3600, // Cache for 1 hour
-        enabled: true
-      }
+      error: error instanceof Error ? error.message : error
     });
+    return null;
+  }
+}
+
+/**
+ * Error message and remaining tries for a failed analysis
+ */
+async function getAnalysisFailure(error: unknown, prepared: PreparedAnalysis) {
+  return {
+    message: getFailureMessage(error),
+    details: {
+      remainingTrials: await getRemainingTrials(prepared.userId, prepared.contentType),
+      trialLimit: prepared.reservation.usage.daily.limit
+    }
+  };
+}
 
-    // Increment trial count after successful analysis
-    trialLimitService.incrementCount(userId, contentType);
+/**
+ * Save a pending analysis and queue it for the job worker
+ */
+async function enqueueAnalysis(res: Response, prepared: PreparedAnalysis) {
+  const { content, contentType, userId, plan, budget, useTooling, reservation } = prepared;
 
-    // Return success response with additional metadata
-    return SuccessResponse(res, 'Content analysis successful', {
-      ...result,
+  try {
+    const job = await analysisJobService.enqueue({
+      userId,
       content,
-      type: contentType,
-      metadata: {
-        remainingTrials: trialLimitService.getRemainingTrials(userId, contentType),
-        trialLimit: trialLimitService.getTrialLimit(),
-        contentType,
-        userId: userId === 'anonymous' ? undefined : userId
+      contentType,
+      plan: plan.name,
+      useTooling,
+      model: budget.model,
+      reservation
+    });
+
+    return AcceptedResponse(res, 'Content analysis queued', {
+      ...job,
+      status: JobStatus.QUEUED,
+      metadata: toAnalysisResponse({ analysisId: job.analysisId }, prepared).metadata
+    });
+  } catch (error) {
+    await releaseReservation(reservation);
+
+    const { message, details } = await getAnalysisFailure(error, prepared);
+    return ErrorResponse(res, message, details);
+  }
+}
+
+/**
+ * Analyze content
+ * Errors before the analysis runs (plan, budget and quota lookups) go to the error handler
+ */
+export async function analyzeContent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const prepared = await prepareAnalysis(req, res);
+    if (!prepared) {
+      return;
+    }
+
+    // Job mode: return 202 with a job id at once; GET /app/jobs/:id reports progress
+    if (req.query.async === 'true') {
+      return await enqueueAnalysis(res, prepared);
+    }
+
+    try {
+      const result = await runAnalysis(req, prepared);
+
+      // Keep the reserved try now that the analysis succeeded
+      trialLimitService.commit(prepared.reservation);
+
+      return SuccessResponse(res, 'Content analysis successful', toAnalysisResponse(result, prepared));
+    } catch (error) {
+      // Failed analyses don't use up a try
+      await releaseReservation(prepared.reservation);
+
+      // The AI service is failing, so the call wasn't made
+      if (error instanceof ServiceError) {
+        return ServiceUnavailableResponse(res, error.message, error.retryAfter);
       }
+
+      const { message, details } = await getAnalysisFailure(error, prepared);
+      return ErrorResponse(res, message, details);
+    }
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/**
+ * Analyze content, streaming progress as Server-Sent Events:
+ * started, cache-hit, partial (one per completed top-level section), then result or error.
+ * Requests rejected by validation, budgets or quotas get the same JSON errors as
+ * POST /app/analyze. If the client disconnects, the analysis still finishes and is saved.
+ */
+export async function analyzeContentStream(req: Request, res: Response, next: NextFunction) {
+  let prepared: PreparedAnalysis | null;
+  try {
+    prepared = await prepareAnalysis(req, res);
+  } catch (error) {
+    return next(error);
+  }
+  if (!prepared) {
+    return;
+  }
+
+  openEventStream(res);
+
+  try {
+    const result = await runAnalysis(req, prepared, ({ event, ...data }) =>
+      sendEvent(res, event, data)
+    );
+
+    // Keep the reserved try now that the analysis succeeded
+    trialLimitService.commit(prepared.reservation);
+
+    sendEvent(res, 'result', toAnalysisResponse(result, prepared));
+  } catch (error) {
+    // Failed analyses don't use up a try
+    await releaseReservation(prepared.reservation);
+
+    const { message, details } = await getAnalysisFailure(error, prepared);
+    sendEvent(res, 'error', {
+      message,
+      ...details,
+      retryAfter: error instanceof ServiceError ? error.retryAfter : undefined
     });
+  }
+
+  res.end();
+}
+
+interface BatchItemResult {
+  index: number;
+  type: string;
+  status: 'completed' | 'failed';
+  // Earlier item with the same content and type, whose analysis this item shares
+  duplicateOf: number | null;
+  analysisId?: string;
+  data?: AnalysisResult['data'];
+  scores?: AnalysisScores;
+  error?: { message: string; details?: Record<string, unknown> };
+}
+
+interface BatchTask {
+  index: number;
+  content: string;
+  contentType: QuotaContentType;
+}
+
+// An item as sent in the request body, before validation
+interface BatchItemInput {
+  content?: unknown;
+  type?: unknown;
+}
+
+/**
+ * Content and type of a batch item, or why it can't be analyzed
+ */
+function parseBatchItem(
+  input: unknown,
+  plan: PlanDefinition
+): { content: string; contentType: QuotaContentType } | { type: string; message: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { type: 'unknown', message: 'Each item must be an object with content and type' };
+  }
+
+  const { content, type } = input as BatchItemInput;
+  const contentType = type || 'content';
+  if (!QUOTA_CONTENT_TYPES.includes(contentType as QuotaContentType)) {
+    return {
+      type: String(contentType),
+      message: `type must be one of: ${QUOTA_CONTENT_TYPES.join(', ')}`
+    };
+  }
+
+  const contentError = getContentError(content, plan);
+  if (contentError) {
+    return { type: String(contentType), message: contentError };
+  }
+
+  return { content: content as string, contentType: contentType as QuotaContentType };
+}
+
+/**
+ * Analyze one item of a batch with its own quota reservation
+ * Never throws, so one failed item doesn't stop the others
+ */
+async function runBatchItem(
+  req: Request,
+  task: BatchTask,
+  userId: string,
+  plan: PlanDefinition,
+  access: PlanAccess
+): Promise<BatchItemResult> {
+  const { index, content, contentType } = task;
+  const item = { index, type: contentType, duplicateOf: null };
+  let reservation: QuotaReservation | null = null;
+
+  try {
+    reservation = await trialLimitService.reserve(userId, contentType, plan);
+    if (!reservation.accepted) {
+      return { ...item, status: 'failed', error: getQuotaFailure(reservation, plan) };
+    }
+
+    const prepared = { content, contentType, userId, plan, ...access, reservation };
+    const result = await runAnalysis(req, prepared);
+
+    // Keep the reserved try now that the analysis succeeded
+    trialLimitService.commit(reservation);
+
+    return {
+      ...item,
+      status: 'completed',
+      analysisId: result.analysisId,
+      data: result.data,
+      scores: result.scores
+    };
   } catch (error) {
-    return ErrorResponse(res, 'Failed to analyze content', {
-      remainingTrials: trialLimitService.getRemainingTrials(userId, contentType),
-      trialLimit: trialLimitService.getTrialLimit()
+    // Failed analyses don't use up a try
+    if (reservation) {
+      await releaseReservation(reservation);
+    }
+
+    return {
+      ...item,
+      status: 'failed',
+      error: {
+        message: getFailureMessage(error),
+        details: error instanceof ServiceError ? { retryAfter: error.retryAfter } : undefined
+      }
+    };
+  }
+}
+
+/**
+ * Completed items ranked by predicted virality, highest first; items without a virality
+ * score come last. Duplicates are listed with the item they share an analysis with.
+ */
+function rankByVirality(results: BatchItemResult[]) {
+  return results
+    .filter(result => result.status === 'completed' && result.duplicateOf === null)
+    .sort((a, b) => {
+      const aScore = a.scores?.virality ?? null;
+      const bScore = b.scores?.virality ?? null;
+      if (aScore === null || bScore === null) {
+        // Unscored items go after scored ones, in request order among themselves
+        return Number(aScore === null) - Number(bScore === null) || a.index - b.index;
+      }
+      return bScore - aScore;
+    })
+    .map((result, position) => ({
+      rank: position + 1,
+      index: result.index,
+      duplicates: results
+        .filter(other => other.duplicateOf === result.index)
+        .map(other => other.index),
+      analysisId: result.analysisId,
+      type: result.type,
+      scores: result.scores ?? null
+    }));
+}
+
+/**
+ * Analyze several posts in one request
+ * Body: items ({ content, type } with type content or video), webSearch
+ * Identical items are analyzed once; each analyzed item reserves its own try, and up to
+ * BATCH_CONCURRENCY items run at a time. Returns per-item results or errors, in request
+ * order, and a summary ranking the drafts by predicted virality.
+ */
+export async function analyzeContentBatch(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { items, webSearch } = req.body;
+    const userId = getUserId(req);
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return ErrorResponse(res, 'items must be a non-empty list of { content, type }');
+    } else if (items.length > config.batch.maxItems) {
+      return ErrorResponse(res, `A batch can contain at most ${config.batch.maxItems} items`);
+    }
+
+    const plan = await planService.getPlanForUser(userId);
+    const access = await checkPlanAccess(res, userId, plan, webSearch);
+    if (!access) {
+      return;
+    }
+
+    const results: BatchItemResult[] = new Array(items.length);
+    const tasks: BatchTask[] = [];
+    const firstIndexByKey = new Map<string, number>();
+
+    items.forEach((input: unknown, index: number) => {
+      const item = parseBatchItem(input, plan);
+      if ('message' in item) {
+        results[index] = {
+          index,
+          type: item.type,
+          status: 'failed',
+          duplicateOf: null,
+          error: { message: item.message }
+        };
+        return;
+      }
+
+      // Same key as the analysis cache, so drafts that differ only in whitespace or case match
+      const key = generateCacheKey(item.content, item.contentType) + item.contentType;
+      const duplicateOf = firstIndexByKey.get(key);
+      if (duplicateOf !== undefined) {
+        results[index] = { index, type: item.contentType, status: 'completed', duplicateOf };
+        return;
+      }
+
+      firstIndexByKey.set(key, index);
+      tasks.push({ index, ...item });
+    });
+
+    const analyzed = await mapWithConcurrency(tasks, config.batch.concurrency, task =>
+      runBatchItem(req, task, userId, plan, access)
+    );
+    analyzed.forEach(result => {
+      results[result.index] = result;
+    });
+
+    // Duplicates share the outcome of the item they repeat
+    results.forEach(result => {
+      if (result.duplicateOf !== null) {
+        const { status, analysisId, data, scores, error } = results[result.duplicateOf];
+        Object.assign(result, { status, analysisId, data, scores, error });
+      }
+    });
+
+    const types = [...new Set(tasks.map(task => task.contentType))];
+    const remaining = await Promise.all(types.map(type => getRemainingTrials(userId, type)));
+
+    return SuccessResponse(res, 'Batch analysis finished', {
+      items: results,
+      summary: {
+        total: results.length,
+        analyzed: tasks.length,
+        completed: results.filter(result => result.status === 'completed').length,
+        failed: results.filter(result => result.status === 'failed').length,
+        ranking: rankByVirality(results)
+      },
+      metadata: {
+        remainingTrials: Object.fromEntries(types.map((type, i) => [type, remaining[i]])),
+        plan: plan.name,
+        downgraded: access.downgraded,
+        userId
+      }
     });
+  } catch (error) {
+    return next(error);
   }
 }
 
-export async function getAnalyzedContent(req: Request, res: Response) {
-  const { type } = req.params;
-  const userId = (req as any).userId || 'anonymous';
-  console.log({ sender: userId, type });
-  const chats = await ChatModel.find({ sender: userId, type }).sort({ createdAt: -1 });
-  return SuccessResponse(res, 'Retrieved analyzed content', chats)
-}
\ No newline at end of file
+/**
+ * Compare 2-5 variants of the same post in one analysis
+ * Body: variants (strings), type (content or video, for all variants)
+ * Returns each variant's scores and deltas from the first variant, the winner of each
+ * dimension and overall, and a merged "best of" rewrite. Counts as one try of the type.
+ * Saved as a group of chats: GET /app/chats/:comparisonId includes the variants.
+ */
+export async function compareContent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { variants, type } = req.body;
+    const contentType = type || 'content';
+    const userId = getUserId(req);
+
+    if (
+      !Array.isArray(variants) ||
+      variants.length < COMPARISON_VARIANTS.MIN ||
+      variants.length > COMPARISON_VARIANTS.MAX
+    ) {
+      return ErrorResponse(
+        res,
+        `variants must be a list of ${COMPARISON_VARIANTS.MIN} to ${COMPARISON_VARIANTS.MAX} versions of the post`
+      );
+    }
+    if (!QUOTA_CONTENT_TYPES.includes(contentType)) {
+      return ErrorResponse(res, `type must be one of: ${QUOTA_CONTENT_TYPES.join(', ')}`);
+    }
+
+    const plan = await planService.getPlanForUser(userId);
+
+    for (const [index, variant] of variants.entries()) {
+      const contentError = getContentError(variant, plan);
+      if (contentError) {
+        return ErrorResponse(res, `Variant ${index + 1}: ${contentError}`);
+      }
+    }
+
+    const access = await checkPlanAccess(res, userId, plan, false);
+    if (!access) {
+      return;
+    }
+
+    const reservation = await trialLimitService.reserve(userId, contentType, plan);
+    if (!reservation.accepted) {
+      const { message, details } = getQuotaFailure(reservation, plan);
+      return ErrorResponse(res, message, details);
+    }
+
+    const prepared: PreparedAnalysis = {
+      content: variants.join('\n\n'),
+      contentType,
+      userId,
+      plan,
+      ...access,
+      reservation
+    };
+
+    try {
+      const comparison = await contentService.compareVariants(req, variants, {
+        userId,
+        plan: plan.name,
+        contentType,
+        model: access.budget.model
+      });
+
+      // Keep the reserved try now that the comparison succeeded
+      trialLimitService.commit(reservation);
+
+      const { metadata } = toAnalysisResponse({ analysisId: comparison.comparisonId }, prepared);
+      return SuccessResponse(res, 'Content comparison successful', {
+        ...comparison,
+        type: contentType,
+        metadata
+      });
+    } catch (error) {
+      // Failed comparisons don't use up a try
+      await releaseReservation(reservation);
+
+      if (error instanceof ServiceError) {
+        return ServiceUnavailableResponse(res, error.message, error.retryAfter);
+      }
+
+      const { message, details } = await getAnalysisFailure(error, prepared);
+      return ErrorResponse(res, message, details);
+    }
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -0,0 +1,199 @@
+import { once } from 'events';
+import { NextFunction, Request, Response } from 'express';
+import { IAuditLog } from '../models';
+import { auditLog, AuditLogQuery } from '../services/auditLog.service';
+import { AUDIT } from '../utils/constants';
+import { RequestError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { buildPaginationMeta, parsePagination } from '../utils/pagination';
+import { parseDate, parseString } from '../utils/query';
+import { SuccessResponse } from '../utils/response';
+
+/**
+ * Audit Log Controller
+ * Exposes audit logs to admins and a user's own security activity to that user
+ */
+
+type ExportFormat = (typeof AUDIT.EXPORT_FORMATS)[number];
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'action',
+  'user',
+  'description',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+  'data',
+];
+
+/**
+ * Read the admin filters shared by the list and export endpoints
+ */
+const parseFilters = (req: Request): AuditLogQuery => {
+  const filters: AuditLogQuery = {
+    action: parseString(req.query.action),
+    user: parseString(req.query.user),
+    userId: parseString(req.query.userId),
+    ipAddress: parseString(req.query.ipAddress),
+    requestId: parseString(req.query.requestId),
+    startDate: parseDate(req.query.startDate, 'startDate'),
+    endDate: parseDate(req.query.endDate, 'endDate'),
+  };
+
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    throw new RequestError('startDate must be before endDate');
+  }
+
+  return filters;
+};
+
+/**
+ * Quote a CSV cell, neutralising values a spreadsheet would run as a formula
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (log: IAuditLog): string => {
+  return [
+    log.timestamp,
+    log.action,
+    log.user,
+    log.description,
+    log.ipAddress,
+    log.userAgent,
+    log.metadata?.requestId,
+    log.data ? JSON.stringify(log.data) : '',
+  ]
+    .map(toCsvCell)
+    .join(',');
+};
+
+/**
+ * Write to the response, waiting for the client to catch up when the buffer is full
+ */
+const writeChunk = async (res: Response, chunk: string): Promise<void> => {
+  if (!res.write(chunk)) {
+    await once(res, 'drain');
+  }
+};
+
+export class AuditLogController {
+  /**
+   * Query audit logs (admin)
+   * Query: action, user, userId, ipAddress, requestId, startDate, endDate, page, limit
+   */
+  static listLogs = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { page, limit } = parsePagination(req.query);
+      const result = await auditLog.query({ ...parseFilters(req), page, limit });
+
+      SuccessResponse(res, 'Audit logs retrieved successfully', {
+        logs: result.logs,
+        meta: buildPaginationMeta(page, limit, result.total),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Export audit logs as CSV or NDJSON (admin)
+   * Accepts the same filters as listLogs plus format; capped at AUDIT.EXPORT_MAX_ROWS rows
+   */
+  static exportLogs = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const format = (parseString(req.query.format) || 'csv') as ExportFormat;
+      if (!AUDIT.EXPORT_FORMATS.includes(format)) {
+        throw new RequestError(`format must be one of: ${AUDIT.EXPORT_FORMATS.join(', ')}`);
+      }
+
+      const filters = parseFilters(req);
+
+      await auditLog.logFromRequest(req, 'AUDIT_LOG_EXPORTED', `Audit logs exported as ${format}`, {
+        format,
+        filters,
+      });
+
+      const fileName = `audit-logs-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+      res.status(200);
+      res.setHeader(
+        'Content-Type',
+        format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8'
+      );
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      if (format === 'csv') {
+        await writeChunk(res, `${CSV_COLUMNS.join(',')}\n`);
+      }
+
+      let rows = 0;
+      for await (const log of auditLog.stream(filters, AUDIT.EXPORT_MAX_ROWS)) {
+        await writeChunk(res, format === 'csv' ? `${toCsvRow(log)}\n` : `${JSON.stringify(log)}\n`);
+        rows++;
+      }
+
+      res.end();
+
+      logger.info('Audit logs exported', { adminId: req.userId, format, rows });
+    } catch (error) {
+      if (res.headersSent) {
+        // The download has started, so the status can't change; cut it short instead
+        logger.error('Audit log export failed mid-stream', {
+          error: error instanceof Error ? error.message : error,
+        });
+        res.end();
+        return;
+      }
+      next(error);
+    }
+  };
+
+  /**
+   * The current user's recent security activity (logins, registration, password and email changes)
+   * Actions an admin took on the account are listed without the admin's IP address and user agent
+   */
+  static getSecurityActivity = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { page, limit } = parsePagination(req.query);
+      const result = await auditLog.query({
+        userId: req.userId,
+        actions: [...AUDIT.SECURITY_ACTIONS],
+        page,
+        limit,
+      });
+
+      SuccessResponse(res, 'Security activity retrieved successfully', {
+        activity: result.logs.map(log => {
+          const byUser = log.data?.userId === req.userId;
+          return {
+            id: log._id.toString(),
+            action: log.action,
+            description: log.description,
+            byAdmin: !byUser,
+            ipAddress: byUser ? log.ipAddress : null,
+            userAgent: byUser ? log.userAgent : null,
+            timestamp: log.timestamp,
+          };
+        }),
+        meta: buildPaginationMeta(page, limit, result.total),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,8 +1,23 @@
-import crypto from 'crypto';
 import { NextFunction, Request, Response } from 'express';
-import { User } from '../models';
+import { IUser, User } from '../models';
+import {
+  ForgotPasswordRequestDTO,
+  RefreshTokenRequestDTO,
+  ResetPasswordRequestDTO,
+  VerifyEmailRequestDTO
+} from '../types/auth';
 import { auditLog } from '../services/auditLog.service';
-import { RequestError } from '../utils/errors';
+import {
+  mailService,
+  passwordChangedEmail,
+  passwordResetEmail,
+  verificationEmail
+} from '../services/core/mail';
+import { tokenService } from '../services/token.service';
+import { userService } from '../services/user.service';
+import { AuthenticationError, RateLimitError, RequestError, ServiceError } from '../utils/errors';
+import { USER_ROLES } from '../utils/constants';
+import { TimeHelper } from '../utils/helpers';
 import { JWTUtils } from '../utils/jwt';
 import { logger } from '../utils/logger';
 import { CreatedResponse, SuccessResponse } from '../utils/response';
@@ -30,10 +45,16 @@ const isValidPassword = (password: string): boolean => {
 };
 
 /**
- * Generate secure random token
+ * Build the error returned for a locked account, telling the client when to retry
  */
-const generateSecureToken = (): string => {
-  return crypto.randomBytes(32).toString('hex');
+const accountLockedError = (user: IUser): RateLimitError => {
+  const retryAfterMs = Math.max(0, (user.lockUntil?.getTime() || Date.now()) - Date.now());
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+  return new RateLimitError(
+    `Account is locked due to too many failed login attempts. Try again in ${TimeHelper.formatDuration(retryAfter * 1000)}`,
+    retryAfter
+  );
 };
 
 export class AuthController {
@@ -42,7 +63,7 @@ export class AuthController {
    */
   static register = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { name, email, password, role = 'user' } = req.body;
+      const { name, email, password } = req.body;
 
       // Validate required fields
       if ( !name || !email || !password) {
@@ -72,20 +93,19 @@ export class AuthController {
         lastName,
         email: email.toLowerCase(),
         password,
-        role,
+        // Roles are only ever assigned by admins
+        role: USER_ROLES.USER,
         isActive: true,
         isEmailVerified: false
       });
 
       // Generate email verification token
-      const verificationToken = generateSecureToken();
-      const hashedToken = crypto.createHash('sha256').update(verificationToken).digest('hex');
-      
-      user.emailVerificationToken = hashedToken;
-      user.emailVerificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+      const verificationToken = user.generateEmailVerificationToken();
 
       await user.save();
 
+      await mailService.trySend({ to: user.email, ...verificationEmail(user.firstName, verificationToken) });
+
       // Audit log for user registration
       await auditLog.logFromRequest(
         req,
@@ -116,16 +136,13 @@ export class AuthController {
         createdAt: user.createdAt
       };
 
-      const tokenPair = JWTUtils.generateTokenPair({
-        userId: user._id.toString(),
-        email: user.email,
-        role: user.role
-      });
-
+      const tokenPair = await tokenService.issueTokenPair(user, req);
 
       CreatedResponse(res, 'Registration successful. Please check your email for verification link.', {
         user: responseUser,
-        token: tokenPair?.accessToken,
+        token: tokenPair.accessToken,
+        refreshToken: tokenPair.refreshToken,
+        expiresIn: tokenPair.expiresIn,
       });
     } catch (error) {
       next(error);
@@ -150,10 +167,48 @@ export class AuthController {
         throw new RequestError('Invalid email or password');
       }
 
+      // Locked accounts are refused before the password is checked
+      if (user.isAccountLocked()) {
+        throw accountLockedError(user);
+      }
+
       // Check password using the model's comparePassword method
       const isValidPassword = await user.comparePassword(password);
       if (!isValidPassword) {
-        logger.warn('Failed login attempt', { email, ip: req.ip });
+        await user.incrementLoginAttempts();
+        const locked = user.isAccountLocked();
+
+        logger.warn('Failed login attempt', { email, ip: req.ip, attempts: user.loginAttempts });
+
+        await auditLog.logFromRequest(
+          req,
+          'LOGIN_FAILED',
+          `Failed login attempt: ${user.email}`,
+          {
+            userId: user._id.toString(),
+            email: user.email,
+            attempts: user.loginAttempts
+          },
+          user.email
+        );
+
+        if (locked) {
+          await auditLog.logFromRequest(
+            req,
+            'ACCOUNT_LOCKED',
+            `Account locked after ${user.loginAttempts} failed login attempts: ${user.email}`,
+            {
+              userId: user._id.toString(),
+              email: user.email,
+              attempts: user.loginAttempts,
+              lockUntil: user.lockUntil
+            },
+            user.email
+          );
+
+          throw accountLockedError(user);
+        }
+
         throw new RequestError('Invalid email or password');
       }
 
@@ -162,12 +217,12 @@ export class AuthController {
         throw new RequestError('Account is not active');
       }
 
+      // Successful login clears previous failures
+      user.loginAttempts = 0;
+      user.lockUntil = undefined;
+
       // Generate tokens
-      const tokenPair = JWTUtils.generateTokenPair({
-        userId: user._id.toString(),
-        email: user.email,
-        role: user.role
-      });
+      const tokenPair = await tokenService.issueTokenPair(user, req);
 
       // Update last login
       user.lastLoginAt = new Date();
@@ -205,12 +260,320 @@ export class AuthController {
 
       SuccessResponse(res, 'Login successful', {
         user: responseUser,
-        token: tokenPair?.accessToken,
+        token: tokenPair.accessToken,
+        refreshToken: tokenPair.refreshToken,
+        expiresIn: tokenPair.expiresIn,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Logout the current session
+   * Revokes the access token used for this request and, if provided, the refresh token
+   */
+  static logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { refreshToken } = req.body as Partial<RefreshTokenRequestDTO>;
+      const payload = req.token ? JWTUtils.verifyAccessToken(req.token).payload : undefined;
+
+      if (!payload) {
+        throw new AuthenticationError('Authentication required');
+      }
+
+      await tokenService.revokeAccessToken(payload, 'logout');
+
+      const user = await User.findById(payload.userId);
+      if (user && refreshToken && typeof refreshToken === 'string') {
+        await tokenService.revokeRefreshToken(user, refreshToken);
+      }
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_LOGOUT',
+        `User logged out: ${payload.email}`,
+        {
+          userId: payload.userId,
+          email: payload.email,
+          refreshTokenRevoked: Boolean(refreshToken)
+        }
+      );
+
+      logger.info('User logged out', {
+        userId: payload.userId,
+        ip: req.ip
+      });
+
+      SuccessResponse(res, 'Logout successful');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Logout from every session by invalidating all outstanding tokens
+   */
+  static logoutAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        throw new AuthenticationError('Authentication required');
+      }
+
+      await tokenService.revokeAllSessions(userId);
+
+      await auditLog.logFromRequest(
+        req,
+        'USER_LOGOUT_ALL',
+        `User logged out of all sessions: ${req.user?.email}`,
+        {
+          userId,
+          email: req.user?.email
+        }
+      );
+
+      logger.info('User logged out of all sessions', {
+        userId,
+        ip: req.ip
+      });
+
+      SuccessResponse(res, 'Logged out of all sessions');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Exchange a refresh token for a new token pair (rotation)
+   */
+  static refresh = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { refreshToken } = req.body as RefreshTokenRequestDTO;
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        throw new RequestError('Refresh token is required');
+      }
+
+      const { user, tokens } = await tokenService.rotateRefreshToken(refreshToken, req);
+
+      logger.info('Token refreshed successfully', {
+        userId: user._id.toString(),
+        ip: req.ip
+      });
+
+      SuccessResponse(res, 'Token refreshed successfully', {
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: tokens.expiresIn,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Verify email address using the token from the verification email
+   */
+  static verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token } = req.body as VerifyEmailRequestDTO;
+
+      if (!token || typeof token !== 'string') {
+        throw new RequestError('Verification token is required');
+      }
+
+      const user = await User.findOne({
+        emailVerificationToken: JWTUtils.hashToken(token),
+        emailVerificationExpires: { $gt: new Date() }
+      }).select('+emailVerificationToken +emailVerificationExpires');
+
+      if (!user) {
+        throw new RequestError('Invalid or expired verification token');
+      }
+
+      user.isEmailVerified = true;
+      user.emailVerificationToken = undefined;
+      user.emailVerificationExpires = undefined;
+      await user.save();
+
+      userService.invalidateUser(user._id.toString());
+
+      await auditLog.logFromRequest(
+        req,
+        'EMAIL_VERIFIED',
+        `Email verified: ${user.email}`,
+        {
+          userId: user._id.toString(),
+          email: user.email
+        },
+        user.email
+      );
+
+      logger.info('Email verified successfully', {
+        userId: user._id.toString(),
+        email: user.email
+      });
+
+      SuccessResponse(res, 'Email verified successfully', {
+        isEmailVerified: true
       });
     } catch (error) {
       next(error);
     }
   };
 
+  /**
+   * Send a new verification email to the authenticated user
+   */
+  static resendVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await User.findById(req.userId);
+
+      if (!user) {
+        throw new AuthenticationError('Authentication required');
+      }
+
+      if (user.isEmailVerified) {
+        throw new RequestError('Email is already verified');
+      }
+
+      // Replaces any previously issued token
+      const verificationToken = user.generateEmailVerificationToken();
+      await user.save();
+
+      const sent = await mailService.trySend({ to: user.email, ...verificationEmail(user.firstName, verificationToken) });
+      if (!sent) {
+        throw new ServiceError('Unable to send verification email, please try again later');
+      }
+
+      await auditLog.logFromRequest(
+        req,
+        'EMAIL_VERIFICATION_RESENT',
+        `Verification email resent: ${user.email}`,
+        {
+          userId: user._id.toString(),
+          email: user.email
+        }
+      );
+
+      SuccessResponse(res, 'Verification email sent');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Request a password reset email
+   * Responds the same way whether or not the account exists
+   */
+  static forgotPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { email } = req.body as ForgotPasswordRequestDTO;
+
+      if (!email || typeof email !== 'string' || !isValidEmail(email)) {
+        throw new RequestError('A valid email is required');
+      }
+
+      const user = await User.findOne({ email: email.toLowerCase(), isActive: true });
+
+      if (user) {
+        // Replaces any previously issued token
+        const resetToken = user.generatePasswordResetToken();
+        await user.save();
+
+        await mailService.trySend({ to: user.email, ...passwordResetEmail(user.firstName, resetToken) });
+
+        logger.info('Password reset requested', {
+          userId: user._id.toString(),
+          ip: req.ip
+        });
+      }
+
+      await auditLog.logFromRequest(
+        req,
+        'PASSWORD_RESET_REQUESTED',
+        `Password reset requested: ${email.toLowerCase()}`,
+        {
+          userId: user?._id.toString(),
+          email: email.toLowerCase(),
+          accountFound: Boolean(user)
+        },
+        email.toLowerCase()
+      );
+
+      SuccessResponse(res, 'If an account exists for this email, a password reset link has been sent');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reset password using the token from the reset email
+   * The token is single use and every existing session is revoked
+   */
+  static resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token, password, confirmPassword } = req.body as ResetPasswordRequestDTO;
+
+      if (!token || typeof token !== 'string' || !password) {
+        throw new RequestError('Reset token and new password are required');
+      }
+
+      if (!isValidPassword(password)) {
+        throw new RequestError('Password must be at least 8 characters and contain uppercase, lowercase, and number');
+      }
+
+      if (confirmPassword !== undefined && confirmPassword !== password) {
+        throw new RequestError('Passwords do not match');
+      }
 
+      // Atomically consume the token so it can only be used once, clearing any lockout
+      const user = await User.findOneAndUpdate(
+        {
+          passwordResetToken: JWTUtils.hashToken(token),
+          passwordResetExpires: { $gt: new Date() }
+        },
+        {
+          $set: { loginAttempts: 0 },
+          $unset: { passwordResetToken: 1, passwordResetExpires: 1, lockUntil: 1 }
+        },
+        { new: true }
+      );
+
+      if (!user) {
+        throw new RequestError('Invalid or expired reset token');
+      }
+
+      // Password will be hashed by the pre-save middleware
+      user.password = password;
+      await user.save();
+
+      await tokenService.revokeAllSessions(user._id.toString());
+
+      await mailService.trySend({ to: user.email, ...passwordChangedEmail(user.firstName) });
+
+      await auditLog.logFromRequest(
+        req,
+        'PASSWORD_RESET_COMPLETED',
+        `Password reset completed: ${user.email}`,
+        {
+          userId: user._id.toString(),
+          email: user.email,
+          sessionsRevoked: true
+        },
+        user.email
+      );
+
+      logger.info('Password reset successfully', {
+        userId: user._id.toString(),
+        ip: req.ip
+      });
+
+      SuccessResponse(res, 'Password reset successfully. Please log in with your new password.');
+    } catch (error) {
+      next(error);
+    }
+  };
 }
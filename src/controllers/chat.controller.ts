@@ -0,0 +1,221 @@
+import { NextFunction, Request, Response } from 'express';
+import { ChatStatus } from '../models/mongodb/Chats';
+import { auditLog } from '../services/auditLog.service';
+import { ChatDetail, chatService } from '../services/chat.service';
+import { RiskLevel } from '../types/analysis';
+import { CHAT_TYPES, ChatType } from '../utils/constants';
+import { NotFoundError, RequestError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { parsePagination } from '../utils/pagination';
+import { parseDate, parseString } from '../utils/query';
+import { SuccessResponse } from '../utils/response';
+
+/**
+ * Chat Controller
+ * Analysis history: listing, fetching, deleting and restoring a user's analyses
+ */
+
+const parseChatType = (type: unknown): ChatType => {
+  if (!CHAT_TYPES.includes(type as ChatType)) {
+    throw new RequestError(`type must be one of: ${CHAT_TYPES.join(', ')}`);
+  }
+  return type as ChatType;
+};
+
+const parseDateRange = (query: Request['query']): { startDate?: Date; endDate?: Date } => {
+  const startDate = parseDate(query.startDate, 'startDate');
+  const endDate = parseDate(query.endDate, 'endDate');
+
+  if (startDate && endDate && startDate > endDate) {
+    throw new RequestError('startDate must be before endDate');
+  }
+
+  return { startDate, endDate };
+};
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Optional minimum score query param, -1 to 1
+ */
+const parseScore = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const score = Number(value);
+  if (!Number.isFinite(score) || score < -1 || score > 1) {
+    throw new RequestError(`${field} must be a number between -1 and 1`);
+  }
+
+  return score;
+};
+
+// Set by loadChat for the handlers after it
+const getLoadedChat = (res: Response): ChatDetail => res.locals.chat as ChatDetail;
+
+export class ChatController {
+  /**
+   * Load the analysis in :id so ownership can be checked before the handler runs
+   * Use with requireOwnershipOrAdmin(ChatController.getOwnerId)
+   */
+  static loadChat = (includeDeleted = false) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const chat = await chatService.getChat(req.params.id, includeDeleted);
+        if (!chat) {
+          throw new NotFoundError('Analysis not found');
+        }
+
+        res.locals.chat = chat;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  };
+
+  /**
+   * Owner of the analysis loaded by loadChat
+   */
+  static getOwnerId = (req: Request): string => {
+    return req.res ? getLoadedChat(req.res).sender : '';
+  };
+
+  /**
+   * Analysis history, newest first
+   * Query: limit, cursor (nextCursor of the previous page), status, startDate, endDate, search,
+   * minSentiment, minVirality, minQuality, risk
+   */
+  static listChats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const type = parseChatType(req.params.type);
+
+      const status = parseString(req.query.status) as ChatStatus | undefined;
+      if (status && !Object.values(ChatStatus).includes(status)) {
+        throw new RequestError(`status must be one of: ${Object.values(ChatStatus).join(', ')}`);
+      }
+
+      const risk = parseString(req.query.risk) as RiskLevel | undefined;
+      if (risk && !RISK_LEVELS.includes(risk)) {
+        throw new RequestError(`risk must be one of: ${RISK_LEVELS.join(', ')}`);
+      }
+
+      const { limit } = parsePagination(req.query);
+      const page = await chatService.listChats(req.userId!, {
+        type,
+        limit,
+        cursor: parseString(req.query.cursor),
+        status,
+        ...parseDateRange(req.query),
+        search: parseString(req.query.search),
+        minSentiment: parseScore(req.query.minSentiment, 'minSentiment'),
+        minVirality: parseScore(req.query.minVirality, 'minVirality'),
+        minQuality: parseScore(req.query.minQuality, 'minQuality'),
+        risk,
+      });
+
+      SuccessResponse(res, 'Retrieved analyzed content', {
+        items: page.items,
+        meta: { limit, nextCursor: page.nextCursor, hasMore: page.hasMore },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * One analysis with its full content and parsed response
+   */
+  static getChat = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      SuccessResponse(res, 'Retrieved analyzed content', getLoadedChat(res));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete one analysis; it can be restored until it's purged
+   */
+  static deleteChat = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const chat = getLoadedChat(res);
+      const purgeAt = await chatService.deleteChat(chat.id);
+      if (!purgeAt) {
+        throw new NotFoundError('Analysis not found');
+      }
+
+      await auditLog.logFromRequest(req, 'ANALYSIS_DELETED', `Analysis deleted: ${chat.id}`, {
+        analysisId: chat.id,
+        ownerId: chat.sender,
+        type: chat.type,
+        purgeAt,
+      });
+
+      SuccessResponse(res, 'Analysis deleted successfully', { id: chat.id, purgeAt });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete the current user's analyses of a type and/or created within a date range
+   * Query: type, startDate, endDate (at least one is required)
+   */
+  static deleteChats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const type = req.query.type === undefined ? undefined : parseChatType(req.query.type);
+      const { startDate, endDate } = parseDateRange(req.query);
+
+      if (!type && !startDate && !endDate) {
+        throw new RequestError('A type, startDate or endDate is required');
+      }
+
+      const result = await chatService.deleteChats(req.userId!, { type, startDate, endDate });
+
+      await auditLog.logFromRequest(req, 'ANALYSES_DELETED', `${result.deleted} analyses deleted`, {
+        type,
+        startDate,
+        endDate,
+        deleted: result.deleted,
+        purgeAt: result.purgeAt,
+      });
+
+      logger.info('Analyses deleted', {
+        userId: req.userId,
+        type,
+        startDate,
+        endDate,
+        deleted: result.deleted,
+      });
+
+      SuccessResponse(res, 'Analyses deleted successfully', result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Restore a deleted analysis before it's purged
+   */
+  static restoreChat = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const chat = getLoadedChat(res);
+      const restored = await chatService.restoreChat(chat.id);
+      if (!restored) {
+        throw new RequestError('Analysis is not deleted');
+      }
+
+      await auditLog.logFromRequest(req, 'ANALYSIS_RESTORED', `Analysis restored: ${chat.id}`, {
+        analysisId: chat.id,
+        ownerId: chat.sender,
+        type: chat.type,
+      });
+
+      SuccessResponse(res, 'Analysis restored successfully', { id: chat.id });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import dashboardService from '../services/dashboard.service';
-import { ErrorResponse, SuccessResponse } from '../utils/response';
+import { ServiceError } from '../utils/errors';
+import { ErrorResponse, ServiceUnavailableResponse, SuccessResponse } from '../utils/response';
 import logger from '../utils/logger';
 
 export async function getDashboardData(req: Request, res: Response) {
@@ -25,6 +26,9 @@ export async function fetchDashboardTrends(req: Request, res: Response) {
     return SuccessResponse(res, 'Dashboard trends fetched successfully', trendsData);
   } catch (error) {
     logger.error('Error fetching dashboard trends:', error);
+    if (error instanceof ServiceError) {
+      return ServiceUnavailableResponse(res, error.message, error.retryAfter);
+    }
     return ErrorResponse(res, 'Failed to fetch dashboard trends');
   }
 }
@@ -0,0 +1,50 @@
+import { NextFunction, Request, Response } from 'express';
+import { AnalysisJobStatus, analysisJobService } from '../services/analysisJob.service';
+import { NotFoundError } from '../utils/errors';
+import { SuccessResponse } from '../utils/response';
+
+/**
+ * Job Controller
+ * Status of analyses queued with POST /app/analyze?async=true
+ */
+
+// Set by loadJob for the handlers after it
+const getLoadedJob = (res: Response): AnalysisJobStatus => res.locals.job as AnalysisJobStatus;
+
+export class JobController {
+  /**
+   * Load the job in :id so ownership can be checked before the handler runs
+   * Use with requireOwnershipOrAdmin(JobController.getOwnerId)
+   */
+  static loadJob = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const job = await analysisJobService.getJobStatus(req.params.id);
+      if (!job) {
+        throw new NotFoundError('Job not found');
+      }
+
+      res.locals.job = job;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Owner of the job loaded by loadJob
+   */
+  static getOwnerId = (req: Request): string => {
+    return req.res ? getLoadedJob(req.res).userId : '';
+  };
+
+  /**
+   * Job status; once it has finished, the saved analysis (or its failure reason) is included
+   */
+  static getJob = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      SuccessResponse(res, 'Retrieved job status', getLoadedJob(res));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,221 @@
+import { NextFunction, Request, Response } from 'express';
+import { auditLog } from '../services/auditLog.service';
+import { PlanUpdate, planService } from '../services/plan.service';
+import { trialLimitService } from '../services/trialLimit.service';
+import { PLAN_FEATURES, PlanFeature, QUOTA_CONTENT_TYPES } from '../utils/constants';
+import { NotFoundError, ValidationError, ValidationFieldError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { SuccessResponse } from '../utils/response';
+import { sanitizers } from '../utils/validation';
+
+/**
+ * Plan Controller
+ * Lets admins manage subscription plans and users see their own plan and usage
+ */
+
+const QUOTA_PERIODS = ['daily', 'monthly'] as const;
+
+const isNonNegativeInteger = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+};
+
+/**
+ * Validate a plan update, leaving out fields that weren't sent
+ */
+const buildPlanUpdate = (body: Record<string, any>): PlanUpdate => {
+  const errors: ValidationFieldError[] = [];
+  const update: PlanUpdate = {};
+
+  (['displayName', 'description'] as const).forEach(field => {
+    const value = body[field];
+    if (value === undefined) {
+      return;
+    }
+
+    const max = field === 'displayName' ? 50 : 500;
+    if (typeof value !== 'string' || !value.trim() || value.length > max) {
+      errors.push({ field, message: `${field} must be between 1 and ${max} characters`, value });
+      return;
+    }
+
+    update[field] = sanitizers.normalizeString(sanitizers.stripHtml(value));
+  });
+
+  if (body.maxContentLength !== undefined) {
+    if (!isNonNegativeInteger(body.maxContentLength) || body.maxContentLength < 1) {
+      errors.push({
+        field: 'maxContentLength',
+        message: 'maxContentLength must be a positive integer',
+        value: body.maxContentLength,
+      });
+    } else {
+      update.maxContentLength = body.maxContentLength;
+    }
+  }
+
+  if (body.features !== undefined) {
+    const allowed = Object.values(PLAN_FEATURES) as string[];
+    if (
+      !Array.isArray(body.features) ||
+      body.features.some((feature: unknown) => !allowed.includes(feature as string))
+    ) {
+      errors.push({
+        field: 'features',
+        message: `features must be a list of: ${allowed.join(', ')}`,
+        value: body.features,
+      });
+    } else {
+      update.features = [...new Set(body.features as PlanFeature[])];
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') {
+      errors.push({
+        field: 'isActive',
+        message: 'isActive must be true or false',
+        value: body.isActive,
+      });
+    } else {
+      update.isActive = body.isActive;
+    }
+  }
+
+  const quotas = body.quotas;
+  if (quotas !== undefined) {
+    if (!quotas || typeof quotas !== 'object') {
+      errors.push({ field: 'quotas', message: 'Quotas must be an object', value: quotas });
+    } else {
+      update.quotas = {};
+      QUOTA_CONTENT_TYPES.forEach(type => {
+        const quota = quotas[type];
+        if (quota === undefined) {
+          return;
+        }
+
+        QUOTA_PERIODS.forEach(period => {
+          const value = quota?.[period];
+          if (value === undefined) {
+            return;
+          }
+
+          if (!isNonNegativeInteger(value)) {
+            errors.push({
+              field: `quotas.${type}.${period}`,
+              message: 'Quotas must be non-negative integers',
+              value,
+            });
+          } else {
+            update.quotas![type] = { ...update.quotas![type], [period]: value };
+          }
+        });
+      });
+    }
+  }
+
+  const budgets = body.budgets;
+  if (budgets !== undefined) {
+    if (!budgets || typeof budgets !== 'object') {
+      errors.push({ field: 'budgets', message: 'Budgets must be an object', value: budgets });
+    } else {
+      update.budgets = {};
+      (['monthlyUsd', 'perUserMonthlyUsd'] as const).forEach(budget => {
+        const value = budgets[budget];
+        if (value === undefined) {
+          return;
+        }
+
+        if (value !== null && (typeof value !== 'number' || !(value >= 0))) {
+          errors.push({
+            field: `budgets.${budget}`,
+            message: 'Budgets must be a non-negative amount in USD, or null for no limit',
+            value,
+          });
+        } else {
+          update.budgets![budget] = value;
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid plan update', errors);
+  }
+
+  return update;
+};
+
+export class PlanController {
+  /**
+   * List every plan (admin)
+   */
+  static listPlans = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const plans = await planService.listPlans();
+
+      SuccessResponse(res, 'Plans retrieved successfully', plans);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a plan's quotas, max content length, features, budgets or status (admin)
+   * Body: { displayName?, description?, quotas?: { content?: { daily?, monthly? }, video? },
+   *         maxContentLength?, features?, budgets?: { monthlyUsd?, perUserMonthlyUsd? }, isActive? }
+   */
+  static updatePlan = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { name } = req.params;
+      const update = buildPlanUpdate(req.body || {});
+
+      const previous = await planService.getPlan(name);
+      if (!previous) {
+        throw new NotFoundError('Plan not found');
+      }
+
+      const plan = await planService.updatePlan(name, update);
+      if (!plan) {
+        throw new NotFoundError('Plan not found');
+      }
+
+      await auditLog.logFromRequest(req, 'PLAN_UPDATED', `Plan updated by admin: ${name}`, {
+        plan: name,
+        changes: update,
+        previous,
+      });
+
+      logger.info('Plan updated by admin', { adminId: req.userId, plan: name });
+
+      SuccessResponse(res, 'Plan updated successfully', plan);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * The current user's plan and how much of its quotas is used
+   */
+  static getMyPlan = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId!;
+      const plan = await planService.getPlanForUser(userId);
+
+      const usage = await Promise.all(
+        QUOTA_CONTENT_TYPES.map(type => trialLimitService.getUsage(userId, type, plan))
+      );
+
+      SuccessResponse(res, 'Plan retrieved successfully', {
+        plan,
+        usage: Object.fromEntries(
+          usage.map(({ contentType, daily, monthly, remaining }) => [
+            contentType,
+            { daily, monthly, remaining },
+          ])
+        ),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,428 @@
+import { NextFunction, Request, Response } from 'express';
+import { ChatModel, IUser, User } from '../models';
+import { auditLog } from '../services/auditLog.service';
+import { mailService, passwordChangedEmail, verificationEmail } from '../services/core/mail';
+import { tokenService } from '../services/token.service';
+import { userService } from '../services/user.service';
+import { webhookService } from '../services/webhook.service';
+import {
+  ChangeEmailRequestDTO,
+  ChangePasswordRequestDTO,
+  DeleteAccountRequestDTO,
+  UpdateProfileRequestDTO,
+} from '../types/auth';
+import {
+  AuthenticationError,
+  ConflictError,
+  RequestError,
+  ValidationError,
+  ValidationFieldError,
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { SuccessResponse } from '../utils/response';
+import {
+  isValidEmail,
+  isValidLength,
+  isValidPassword,
+  isValidPhoneNumber,
+  isValidUrl,
+  sanitizers,
+} from '../utils/validation';
+
+/**
+ * Profile Controller
+ * Handles the authenticated user's own profile, preferences, credentials and account
+ */
+
+const THEMES = ['light', 'dark', 'system'];
+
+/**
+ * Avatars are shown as images by clients, so only web URLs are accepted (no javascript: or data:)
+ */
+const isValidAvatarUrl = (value: string): boolean =>
+  isValidUrl(value) && ['http:', 'https:'].includes(new URL(value).protocol) && value.length <= 500;
+
+/**
+ * Shape returned for the current user's profile
+ */
+const toProfileResponse = (user: IUser) => ({
+  id: user._id.toString(),
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.email,
+  role: user.role,
+  plan: user.plan,
+  isActive: user.isActive,
+  isEmailVerified: user.isEmailVerified,
+  profile: user.profile,
+  lastLoginAt: user.lastLoginAt,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+/**
+ * Load the authenticated user, optionally with the password hash for re-authentication
+ */
+const loadCurrentUser = async (req: Request, withPassword: boolean = false): Promise<IUser> => {
+  const query = User.findById(req.userId);
+  const user = withPassword ? await query.select('+password') : await query;
+
+  if (!user) {
+    throw new AuthenticationError('Authentication required');
+  }
+
+  return user;
+};
+
+/**
+ * Require the current password for sensitive changes
+ */
+const confirmPassword = async (user: IUser, password: unknown): Promise<void> => {
+  if (!password || typeof password !== 'string') {
+    throw new RequestError('Current password is required');
+  }
+
+  if (!(await user.comparePassword(password))) {
+    throw new RequestError('Current password is incorrect');
+  }
+};
+
+/**
+ * Validate a profile update and turn it into dotted $set paths,
+ * so omitted fields are left untouched
+ */
+const buildProfileUpdate = (body: UpdateProfileRequestDTO): Record<string, unknown> => {
+  const errors: ValidationFieldError[] = [];
+  const update: Record<string, unknown> = {};
+
+  const setString = (
+    field: keyof UpdateProfileRequestDTO,
+    path: string,
+    max: number,
+    min: number = 0
+  ) => {
+    const value = body[field];
+    if (value === undefined) {
+      return;
+    }
+
+    if (typeof value !== 'string' || value.trim().length < min || value.length > max) {
+      errors.push({
+        field,
+        message: `${field} must be between ${min} and ${max} characters`,
+        value,
+      });
+      return;
+    }
+
+    update[path] = sanitizers.normalizeString(sanitizers.stripHtml(value));
+  };
+
+  setString('firstName', 'firstName', 50, 1);
+  setString('lastName', 'lastName', 50, 1);
+  setString('bio', 'profile.bio', 500);
+
+  if (body.phone !== undefined) {
+    if (body.phone !== '' && !isValidPhoneNumber(body.phone)) {
+      errors.push({
+        field: 'phone',
+        message: 'Phone must be in international format, e.g. +15551234567',
+        value: body.phone,
+      });
+    } else {
+      update['profile.phone'] = sanitizers.normalizePhoneNumber(body.phone);
+    }
+  }
+
+  if (body.avatar !== undefined) {
+    if (body.avatar !== '' && !isValidAvatarUrl(body.avatar)) {
+      errors.push({
+        field: 'avatar',
+        message: 'Avatar must be a valid http or https URL',
+        value: body.avatar,
+      });
+    } else {
+      update['profile.avatar'] = body.avatar;
+    }
+  }
+
+  const preferences = body.preferences;
+  if (preferences !== undefined) {
+    if (!preferences || typeof preferences !== 'object') {
+      errors.push({
+        field: 'preferences',
+        message: 'Preferences must be an object',
+        value: preferences,
+      });
+    } else {
+      if (preferences.theme !== undefined) {
+        if (!THEMES.includes(preferences.theme)) {
+          errors.push({
+            field: 'preferences.theme',
+            message: `Theme must be one of: ${THEMES.join(', ')}`,
+            value: preferences.theme,
+          });
+        } else {
+          update['profile.preferences.theme'] = preferences.theme;
+        }
+      }
+
+      if (preferences.language !== undefined) {
+        if (
+          typeof preferences.language !== 'string' ||
+          !isValidLength(preferences.language, 2, 10)
+        ) {
+          errors.push({
+            field: 'preferences.language',
+            message: 'Language must be a language code, e.g. en or en-US',
+            value: preferences.language,
+          });
+        } else {
+          update['profile.preferences.language'] = preferences.language;
+        }
+      }
+
+      const notifications = preferences.notifications;
+      if (notifications !== undefined) {
+        (['email', 'push'] as const).forEach(channel => {
+          const value = notifications?.[channel];
+          if (value === undefined) {
+            return;
+          }
+
+          if (typeof value !== 'boolean') {
+            errors.push({
+              field: `preferences.notifications.${channel}`,
+              message: 'Notification settings must be true or false',
+              value,
+            });
+          } else {
+            update[`profile.preferences.notifications.${channel}`] = value;
+          }
+        });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid profile update', errors);
+  }
+
+  return update;
+};
+
+export class ProfileController {
+  /**
+   * Get the current user's profile
+   */
+  static getProfile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await loadCurrentUser(req);
+
+      SuccessResponse(res, 'Profile retrieved successfully', toProfileResponse(user));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update name, profile details and preferences
+   */
+  static updateProfile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const update = buildProfileUpdate((req.body || {}) as UpdateProfileRequestDTO);
+      const fields = Object.keys(update);
+
+      if (fields.length === 0) {
+        throw new RequestError('No profile fields to update');
+      }
+
+      const user = await User.findByIdAndUpdate(
+        req.userId,
+        { $set: update },
+        { new: true, runValidators: true }
+      );
+
+      if (!user) {
+        throw new AuthenticationError('Authentication required');
+      }
+
+      userService.invalidateUser(user._id.toString());
+
+      await auditLog.logFromRequest(req, 'PROFILE_UPDATED', `Profile updated: ${user.email}`, {
+        userId: user._id.toString(),
+        fields,
+      });
+
+      SuccessResponse(res, 'Profile updated successfully', toProfileResponse(user));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Change password with the current password
+   * Every existing session is revoked and a fresh token pair is returned for this client
+   */
+  static changePassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const {
+        currentPassword,
+        newPassword,
+        confirmPassword: confirmation,
+      } = req.body as ChangePasswordRequestDTO;
+      const user = await loadCurrentUser(req, true);
+
+      await confirmPassword(user, currentPassword);
+
+      if (!isValidPassword(newPassword)) {
+        throw new RequestError(
+          'Password must be at least 8 characters and contain uppercase, lowercase, and number'
+        );
+      }
+
+      if (confirmation !== undefined && confirmation !== newPassword) {
+        throw new RequestError('Passwords do not match');
+      }
+
+      if (await user.comparePassword(newPassword)) {
+        throw new RequestError('New password must be different from the current password');
+      }
+
+      // Password will be hashed by the pre-save middleware
+      user.password = newPassword;
+      await user.save();
+
+      await tokenService.revokeAllSessions(user._id.toString());
+
+      // Reload to pick up the bumped token version before issuing new tokens
+      const refreshedUser = await loadCurrentUser(req);
+      const tokenPair = await tokenService.issueTokenPair(refreshedUser, req);
+
+      await mailService.trySend({ to: user.email, ...passwordChangedEmail(user.firstName) });
+
+      await auditLog.logFromRequest(req, 'PASSWORD_CHANGED', `Password changed: ${user.email}`, {
+        userId: user._id.toString(),
+        sessionsRevoked: true,
+      });
+
+      logger.info('Password changed', {
+        userId: user._id.toString(),
+        ip: req.ip,
+      });
+
+      SuccessResponse(res, 'Password changed successfully', {
+        token: tokenPair.accessToken,
+        refreshToken: tokenPair.refreshToken,
+        expiresIn: tokenPair.expiresIn,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Change email with the current password
+   * The new address must be verified again before analysis is allowed
+   */
+  static changeEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { email, password } = req.body as ChangeEmailRequestDTO;
+      const user = await loadCurrentUser(req, true);
+
+      await confirmPassword(user, password);
+
+      if (!email || typeof email !== 'string' || !isValidEmail(email)) {
+        throw new RequestError('A valid email is required');
+      }
+
+      const newEmail = sanitizers.normalizeEmail(email);
+      const previousEmail = user.email;
+
+      if (newEmail === previousEmail) {
+        throw new RequestError('New email must be different from the current email');
+      }
+
+      if (await User.exists({ email: newEmail })) {
+        throw new ConflictError('Email is already in use');
+      }
+
+      user.email = newEmail;
+      user.isEmailVerified = false;
+      const verificationToken = user.generateEmailVerificationToken();
+      await user.save();
+
+      userService.invalidateUser(user._id.toString());
+
+      await mailService.trySend({
+        to: user.email,
+        ...verificationEmail(user.firstName, verificationToken),
+      });
+
+      await auditLog.logFromRequest(
+        req,
+        'EMAIL_CHANGED',
+        `Email changed from ${previousEmail} to ${newEmail}`,
+        {
+          userId: user._id.toString(),
+          previousEmail,
+          newEmail,
+        },
+        newEmail
+      );
+
+      SuccessResponse(
+        res,
+        'Email changed successfully. Please check your email for verification link.',
+        toProfileResponse(user)
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Permanently delete the current user's account, analysis history and webhooks
+   */
+  static deleteAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { password } = (req.body || {}) as DeleteAccountRequestDTO;
+      const user = await loadCurrentUser(req, true);
+      const userId = user._id.toString();
+
+      await confirmPassword(user, password);
+
+      const chats = await ChatModel.deleteMany({ sender: userId });
+      const webhooksDeleted = await webhookService.deleteWebhooksOfUser(userId);
+      await User.deleteOne({ _id: user._id });
+
+      userService.invalidateUser(userId);
+
+      await auditLog.logFromRequest(
+        req,
+        'ACCOUNT_DELETED',
+        `Account deleted by user: ${user.email}`,
+        {
+          userId,
+          email: user.email,
+          chatsDeleted: chats.deletedCount,
+          webhooksDeleted,
+        },
+        user.email
+      );
+
+      logger.info('Account deleted', {
+        userId,
+        ip: req.ip,
+      });
+
+      SuccessResponse(res, 'Account deleted successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,86 @@
+import { NextFunction, Request, Response } from 'express';
+import { budgetService } from '../services/budget.service';
+import { planService } from '../services/plan.service';
+import { USAGE_GROUP_BY, UsageGroupBy, usageService } from '../services/usage.service';
+import { RequestError } from '../utils/errors';
+import { buildPaginationMeta, parsePagination } from '../utils/pagination';
+import { parseDate, parseString } from '../utils/query';
+import { SuccessResponse } from '../utils/response';
+
+/**
+ * Usage Controller
+ * Reports analyses, tokens and spend, to users for themselves and to admins across users
+ */
+
+export class UsageController {
+  /**
+   * The current user's usage today and this month (UTC), with a per-day breakdown
+   * and the spend budgets that apply to them
+   */
+  static getMyUsage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const plan = await planService.getPlanForUser(req.userId!);
+      const [usage, budgets] = await Promise.all([
+        usageService.getUserUsage(req.userId!),
+        budgetService.getBudgets(req.userId!, plan),
+      ]);
+
+      SuccessResponse(res, 'Usage retrieved successfully', { ...usage, budgets });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Usage across users for cost reporting (admin)
+   * Query: startDate, endDate (defaults to the current UTC month), groupBy, page, limit
+   */
+  static getUsageRollup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const now = new Date();
+      const startDate =
+        parseDate(req.query.startDate, 'startDate') ||
+        new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const endDate = parseDate(req.query.endDate, 'endDate') || now;
+
+      if (startDate > endDate) {
+        throw new RequestError('startDate must be before endDate');
+      }
+
+      const groupBy = (parseString(req.query.groupBy) || 'user') as UsageGroupBy;
+      if (!USAGE_GROUP_BY.includes(groupBy)) {
+        throw new RequestError(`groupBy must be one of: ${USAGE_GROUP_BY.join(', ')}`);
+      }
+
+      const { page, limit } = parsePagination(req.query);
+      const rollup = await usageService.getRollup({ startDate, endDate, groupBy, page, limit });
+
+      SuccessResponse(res, 'Usage rollup retrieved successfully', {
+        period: { startDate, endDate },
+        groupBy,
+        totals: rollup.totals,
+        rows: rollup.rows,
+        meta: buildPaginationMeta(page, limit, rollup.total),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Global and per-plan spend against their budgets this month (admin)
+   */
+  static getBudgets = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const budgets = await budgetService.getOverview();
+
+      SuccessResponse(res, 'Budgets retrieved successfully', { budgets });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
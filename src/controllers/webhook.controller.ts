@@ -0,0 +1,267 @@
+import { NextFunction, Request, Response } from 'express';
+import config from '../config';
+import { WebhookScope } from '../models/mongodb/Webhook';
+import { auditLog } from '../services/auditLog.service';
+import { WebhookUpdate, WebhookView, webhookService } from '../services/webhook.service';
+import { USER_PERMISSIONS, WEBHOOK_EVENTS, WebhookEvent } from '../utils/constants';
+import { AuthorizationError, NotFoundError, RequestError } from '../utils/errors';
+import { buildPaginationMeta, parsePagination } from '../utils/pagination';
+import { hasInternalHost } from '../utils/network';
+import { hasPermission } from '../utils/permissions';
+import { CreatedResponse, SuccessResponse } from '../utils/response';
+import { isValidUrl } from '../utils/validation';
+
+/**
+ * Webhook Controller
+ * Managing a user's webhooks and their delivery log
+ */
+
+/**
+ * Endpoint URL; deliveries go over https, plain http is allowed outside production
+ * Internal hosts are refused here and again at delivery time, once DNS has been resolved
+ */
+const parseWebhookUrl = (value: unknown): string => {
+  if (typeof value !== 'string' || !isValidUrl(value.trim())) {
+    throw new RequestError('url must be a valid URL');
+  }
+
+  const url = value.trim();
+  const { protocol } = new URL(url);
+  const allowed = config.app.env === 'production' ? ['https:'] : ['https:', 'http:'];
+  if (!allowed.includes(protocol)) {
+    throw new RequestError(`url must use ${allowed.join(' or ').replace(/:/g, '')}`);
+  }
+  if (hasInternalHost(url)) {
+    throw new RequestError('url must point at a public host');
+  }
+
+  return url;
+};
+
+const parseEvents = (value: unknown): WebhookEvent[] => {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some(event => !WEBHOOK_EVENTS.includes(event))
+  ) {
+    throw new RequestError(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+
+  return [...new Set(value as WebhookEvent[])];
+};
+
+const parseDescription = (value: unknown): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > 500) {
+    throw new RequestError('description must be a string of at most 500 characters');
+  }
+  return value;
+};
+
+// Set by loadWebhook for the handlers after it
+const getLoadedWebhook = (res: Response): WebhookView => res.locals.webhook as WebhookView;
+
+export class WebhookController {
+  /**
+   * Load the webhook in :id so ownership can be checked before the handler runs
+   * Use with requireOwnershipOrAdmin(WebhookController.getOwnerId)
+   */
+  static loadWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const webhook = await webhookService.getWebhook(req.params.id);
+      if (!webhook) {
+        throw new NotFoundError('Webhook not found');
+      }
+
+      res.locals.webhook = webhook;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Owner of the webhook loaded by loadWebhook
+   */
+  static getOwnerId = (req: Request): string => {
+    return req.res ? getLoadedWebhook(req.res).userId : '';
+  };
+
+  /**
+   * Register a webhook
+   * Body: url, events, description, scope ('all' receives every user's events; admins only)
+   * The signing secret is only included in this response
+   */
+  static createWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const scope: WebhookScope = req.body.scope === undefined ? 'user' : req.body.scope;
+      if (scope !== 'user' && scope !== 'all') {
+        throw new RequestError('scope must be one of: user, all');
+      }
+      if (scope === 'all' && !hasPermission(req.user!.role, USER_PERMISSIONS.ADMIN)) {
+        throw new AuthorizationError("Only admins can receive every user's events");
+      }
+
+      const result = await webhookService.createWebhook(req.userId!, {
+        url: parseWebhookUrl(req.body.url),
+        events: parseEvents(req.body.events),
+        description: parseDescription(req.body.description),
+        scope,
+      });
+
+      await auditLog.logFromRequest(
+        req,
+        'WEBHOOK_CREATED',
+        `Webhook created: ${result.webhook.id}`,
+        {
+          webhookId: result.webhook.id,
+          url: result.webhook.url,
+          events: result.webhook.events,
+          scope,
+        }
+      );
+
+      CreatedResponse(res, 'Webhook created', result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * The current user's webhooks, newest first
+   */
+  static listWebhooks = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const webhooks = await webhookService.listWebhooks(req.userId!);
+      SuccessResponse(res, 'Retrieved webhooks', webhooks);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static getWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      SuccessResponse(res, 'Retrieved webhook', getLoadedWebhook(res));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Change a webhook's url, events, description or isActive
+   */
+  static updateWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const update: WebhookUpdate = {};
+
+      if (req.body.url !== undefined) {
+        update.url = parseWebhookUrl(req.body.url);
+      }
+      if (req.body.events !== undefined) {
+        update.events = parseEvents(req.body.events);
+      }
+      if (req.body.description !== undefined) {
+        update.description = parseDescription(req.body.description);
+      }
+      if (req.body.isActive !== undefined) {
+        if (typeof req.body.isActive !== 'boolean') {
+          throw new RequestError('isActive must be a boolean');
+        }
+        update.isActive = req.body.isActive;
+      }
+
+      if (Object.keys(update).length === 0) {
+        throw new RequestError('Nothing to update');
+      }
+
+      const webhook = await webhookService.updateWebhook(getLoadedWebhook(res).id, update);
+      if (!webhook) {
+        throw new NotFoundError('Webhook not found');
+      }
+
+      await auditLog.logFromRequest(req, 'WEBHOOK_UPDATED', `Webhook updated: ${webhook.id}`, {
+        webhookId: webhook.id,
+        changes: Object.keys(update),
+      });
+
+      SuccessResponse(res, 'Webhook updated', webhook);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a webhook; deliveries still pending are dropped
+   */
+  static deleteWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = getLoadedWebhook(res);
+      if (!(await webhookService.deleteWebhook(id))) {
+        throw new NotFoundError('Webhook not found');
+      }
+
+      await auditLog.logFromRequest(req, 'WEBHOOK_DELETED', `Webhook deleted: ${id}`, {
+        webhookId: id,
+      });
+
+      SuccessResponse(res, 'Webhook deleted', { id });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * A webhook's delivery log, newest first
+   * Query: page, limit
+   */
+  static listDeliveries = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { page, limit, skip } = parsePagination(req.query);
+      const { deliveries, total } = await webhookService.listDeliveries(getLoadedWebhook(res).id, {
+        skip,
+        limit,
+      });
+
+      SuccessResponse(res, 'Retrieved webhook deliveries', {
+        deliveries,
+        meta: buildPaginationMeta(page, limit, total),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Send a delivery's event again; the new delivery keeps the event ID so receivers can dedupe
+   */
+  static redeliver = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const webhook = getLoadedWebhook(res);
+      if (!webhook.isActive) {
+        throw new RequestError('Webhook is disabled');
+      }
+
+      const delivery = await webhookService.redeliver(webhook.id, req.params.deliveryId);
+      if (!delivery) {
+        throw new NotFoundError('Delivery not found');
+      }
+
+      await auditLog.logFromRequest(
+        req,
+        'WEBHOOK_REDELIVERED',
+        `Webhook delivery resent: ${req.params.deliveryId}`,
+        { webhookId: webhook.id, deliveryId: req.params.deliveryId, redeliveryId: delivery.id }
+      );
+
+      CreatedResponse(res, 'Delivery queued', delivery);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -3,6 +3,11 @@ import { AuthenticationError, AuthorizationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { JWTUtils } from '../utils/jwt';
 import { TooManyRequestsResponse } from '../utils/response';
+import { tokenService } from '../services/token.service';
+import { userService } from '../services/user.service';
+import { AuthenticatedUser } from '../types/auth';
+import { USER_PERMISSIONS, USER_ROLES, UserPermission } from '../utils/constants';
+import { hasPermission } from '../utils/permissions';
 
 /**
  * Authentication Middleware
@@ -13,7 +18,7 @@ import { TooManyRequestsResponse } from '../utils/response';
 declare global {
   namespace Express {
     interface Request {
-      user?: any;
+      user?: AuthenticatedUser;
       userId?: string;
       token?: string;
     }
@@ -63,14 +68,36 @@ export const authenticateToken = async (
     if (!verifyResult.payload) {
       throw new AuthenticationError('Invalid token payload');
     }
-    // TODO: Replace with actual database lookup
-    const user = {
-      id: verifyResult.payload.userId,
-      email: verifyResult.payload.email,
-      role: verifyResult.payload.role,
-      status: 'active',
-      emailVerified: true
-    };
+
+    const user = await userService.getAuthUser(verifyResult.payload.userId);
+
+    if (!user) {
+      logger.warn('Token provided for unknown user', {
+        userId: verifyResult.payload.userId,
+        url: req.originalUrl,
+        ip: req.ip,
+      });
+      throw new AuthenticationError('Invalid access token');
+    }
+
+    // Reject tokens revoked by logout or logout-all
+    if (await tokenService.isAccessTokenRevoked(verifyResult.payload, user.tokenVersion)) {
+      logger.warn('Revoked token used', {
+        userId: user.id,
+        url: req.originalUrl,
+        ip: req.ip,
+      });
+      throw new AuthenticationError('Token has been revoked');
+    }
+
+    if (!user.isActive) {
+      logger.warn('Inactive user attempted access', {
+        userId: user.id,
+        url: req.originalUrl,
+        ip: req.ip,
+      });
+      throw new AuthorizationError('Account is not active');
+    }
 
     // Attach user and token info to request
     req.user = user;
@@ -112,18 +139,17 @@ export const optionalAuth = async (
     const verifyResult = JWTUtils.verifyAccessToken(token);
     
     if (verifyResult.valid && verifyResult.payload) {
-      // Create mock user from token
-      const user = {
-        id: verifyResult.payload.userId,
-        email: verifyResult.payload.email,
-        role: verifyResult.payload.role,
-        status: 'active',
-        emailVerified: true
-      };
-      
-      req.user = user;
-      req.userId = user.id;
-      req.token = token;
+      const user = await userService.getAuthUser(verifyResult.payload.userId);
+
+      if (
+        user &&
+        user.isActive &&
+        !(await tokenService.isAccessTokenRevoked(verifyResult.payload, user.tokenVersion))
+      ) {
+        req.user = user;
+        req.userId = user.id;
+        req.token = token;
+      }
     }
 
     next();
@@ -169,15 +195,53 @@ export const requireRole = (allowedRoles: string | string[]) => {
   };
 };
 
+/**
+ * Permission-based authorization middleware
+ * Passes when the user's role has every listed permission (see ROLE_PERMISSIONS)
+ */
+export const requirePermission = (requiredPermissions: UserPermission | UserPermission[]) => {
+  const permissions = Array.isArray(requiredPermissions)
+    ? requiredPermissions
+    : [requiredPermissions];
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+      }
+
+      const missing = permissions.filter(permission => !hasPermission(req.user!.role, permission));
+
+      if (missing.length > 0) {
+        logger.warn('Authorization failed - missing permission', {
+          userId: req.user.id,
+          userRole: req.user.role,
+          missingPermissions: missing,
+          url: req.originalUrl,
+        });
+        throw new AuthorizationError(`Access denied. Required permission: ${missing.join(', ')}`);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Admin-only middleware
  */
-export const requireAdmin = requireRole('admin');
+export const requireAdmin = requireRole([USER_ROLES.ADMIN, USER_ROLES.SUPER_ADMIN]);
 
 /**
  * User or Admin middleware
  */
-export const requireUserOrAdmin = requireRole(['user', 'admin']);
+export const requireUserOrAdmin = requireRole([
+  USER_ROLES.USER,
+  USER_ROLES.ADMIN,
+  USER_ROLES.SUPER_ADMIN,
+]);
 
 /**
  * Require user to be the owner of the resource or admin
@@ -192,7 +256,7 @@ export const requireOwnershipOrAdmin = (getUserIdFromParams: (req: Request) => s
       const resourceUserId = getUserIdFromParams(req);
       
       // Allow if user is admin or owns the resource
-      if (req.user.role === 'admin' || req.user.id === resourceUserId) {
+      if (hasPermission(req.user.role, USER_PERMISSIONS.ADMIN) || req.user.id === resourceUserId) {
         return next();
       }
 
@@ -219,13 +283,13 @@ export const requireVerified = (req: Request, res: Response, next: NextFunction)
       throw new AuthenticationError('Authentication required');
     }
 
-    if (!req.user.emailVerified) {
+    if (!req.user.isEmailVerified) {
       logger.warn('Access attempted with unverified account', {
         userId: req.user.id,
         email: req.user.email,
         url: req.originalUrl,
       });
-      throw new AuthenticationError('Account email verification required');
+      throw new AuthorizationError('Account email verification required');
     }
 
     next();
@@ -242,7 +306,7 @@ export const rateLimitByUser = (maxRequests: number, windowMs: number) => {
 
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
-      const userId = req.user?.id || req.ip;
+      const userId = req.user?.id || req.ip || 'unknown';
       const now = Date.now();
 
       const userLimit = userRequests.get(userId);
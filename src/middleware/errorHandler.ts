@@ -24,6 +24,7 @@ import {
   TooManyRequestsResponse,
   ServiceUnavailableResponse,
   InternalServerErrorResponse,
+  BadGatewayResponse,
 } from '@/utils/response';
 
 /**
@@ -103,6 +104,12 @@ export const errorHandler = (
  * Send error response based on error type
  */
 const sendErrorResponse = (res: Response, error: AppError): void => {
+  // Checked before the switch so subclasses such as AnalysisOutputError are covered too
+  if (error instanceof ExternalServiceError) {
+    BadGatewayResponse(res, error.message);
+    return;
+  }
+
   switch (error.constructor) {
     case ValidationError:
       const validationError = error as ValidationError;
@@ -140,7 +147,6 @@ const sendErrorResponse = (res: Response, error: AppError): void => {
       break;
 
     case DatabaseError:
-    case ExternalServiceError:
     default:
       InternalServerErrorResponse(res, error.message);
       break;
@@ -6,6 +6,10 @@ export { User } from './mongodb/User';
 export { ChatModel } from './mongodb/Chats';
 export { TrendsModel } from './mongodb/Trends';
 export { AuditLog } from './mongodb/AuditLog';
+export { RevokedToken } from './mongodb/RevokedToken';
+export { UsageCounter } from './mongodb/UsageCounter';
+export { Plan } from './mongodb/Plan';
+export { UsageRecord } from './mongodb/UsageRecord';
 
 // Export types
-export type { IUser, IAuditLog } from './mongodb';
+export type { IUser, IAuditLog, IRevokedToken, IUsageCounter, IPlan, IUsageRecord } from './mongodb';
@@ -76,5 +76,10 @@ const auditLogSchema = new Schema<IAuditLog>({
   collection: 'audit_logs'
 });
 
+// Indexes for admin and per-user activity queries
+auditLogSchema.index({ 'data.userId': 1, timestamp: -1 });
+auditLogSchema.index({ 'data.targetUserId': 1, timestamp: -1 }, { sparse: true });
+auditLogSchema.index({ ipAddress: 1, timestamp: -1 });
+auditLogSchema.index({ 'metadata.requestId': 1 }, { sparse: true });
 
 export const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
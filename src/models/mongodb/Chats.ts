@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { AnalysisData, AnalysisScores } from '../../types/analysis';
+import { isAnalysisType, validateAnalysis } from '../../utils/analysis';
 
 export enum ChatStatus {
   PENDING = 'pending',
@@ -12,11 +14,18 @@ export interface Chat extends Document {
   message: string;
   sender: string;
   response: string;
+  result: AnalysisData | null;
+  scores: AnalysisScores;
   modelName: string;
   type: string;
   createdAt: Date;
   updatedAt: Date;
   status: ChatStatus;
+  failureReason: string | null;
+  groupId: string | null;
+  variantIndex: number | null;
+  deletedAt: Date | null;
+  purgeAt: Date | null;
 }
 
 const chatSchema = new Schema<Chat>(
@@ -41,12 +50,54 @@ const chatSchema = new Schema<Chat>(
       required: false,
       trim: true,
     },
+    // Validated analysis; response then stays empty. Null for dashboard trends and for
+    // output that didn't match the analysis schema, which is kept raw in response
+    result: {
+      type: Schema.Types.Mixed,
+      default: null,
+      validate: {
+        validator: function (this: Chat, value: unknown): boolean {
+          return (
+            value === null ||
+            !isAnalysisType(this.type) ||
+            validateAnalysis(this.type, value).success
+          );
+        },
+        message: 'Analysis result does not match the schema for its type',
+      },
+    },
+    // Headline scores of result, indexed for filtering and charts
+    scores: {
+      sentiment: {
+        type: Number,
+        default: null,
+      },
+      virality: {
+        type: Number,
+        default: null,
+      },
+      quality: {
+        type: Number,
+        default: null,
+      },
+      risk: {
+        type: String,
+        enum: ['low', 'medium', 'high', null],
+        default: null,
+      },
+    },
     status: {
       type: String,
       enum: Object.values(ChatStatus),
       default: ChatStatus.PENDING,
       required: true,
     },
+    // Why a failed analysis failed, e.g. the model's output didn't match the schema
+    failureReason: {
+      type: String,
+      default: null,
+      maxlength: 2000,
+    },
     type: {
       type: String,
       default: 'content',
@@ -57,6 +108,25 @@ const chatSchema = new Schema<Chat>(
       default: 'anthropic',
       required: false,
     },
+    // Links the chats of a comparison: the comparison itself (whose ID it is) and its variants
+    groupId: {
+      type: String,
+      default: null,
+    },
+    // Position of a variant in its comparison, from 1
+    variantIndex: {
+      type: Number,
+      default: null,
+    },
+    // Set when the owner deletes the analysis; it's hidden but can be restored until purgeAt
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    purgeAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -75,5 +145,18 @@ const chatSchema = new Schema<Chat>(
 
 chatSchema.index({ id: 1, sender: 1 }, { unique: true });
 chatSchema.index({ createdAt: -1 });
+// History lists, newest first
+chatSchema.index({ sender: 1, type: 1, createdAt: -1, _id: -1 });
+// Score filters
+chatSchema.index({ sender: 1, type: 1, 'scores.virality': -1 });
+chatSchema.index({ sender: 1, type: 1, 'scores.sentiment': -1 });
+chatSchema.index({ sender: 1, type: 1, 'scores.quality': -1 });
+chatSchema.index({ sender: 1, type: 1, 'scores.risk': 1 });
+// Chats of a comparison, in variant order
+chatSchema.index({ groupId: 1, variantIndex: 1 });
+// History search
+chatSchema.index({ message: 'text' });
+// Permanently remove deleted analyses once their retention window ends
+chatSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
 
 export const ChatModel = mongoose.model<Chat>('Chat', chatSchema);
@@ -0,0 +1,117 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  id: string;
+  type: string;
+  status: JobStatus;
+  userId: string;
+  payload: Record<string, any>;
+  attempts: number;
+  maxAttempts: number;
+  backoff: { baseDelayMs: number; maxDelayMs: number } | null;
+  runAt: Date;
+  lockedAt: Date | null;
+  lockedBy: string | null;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    id: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Which handler runs the job, e.g. analysis
+    type: {
+      type: String,
+      required: [true, 'Job type is required'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(JobStatus),
+      default: JobStatus.QUEUED,
+      required: true,
+    },
+    // User the job was created for
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 1,
+    },
+    // Delays between attempts, when not the queue's default
+    backoff: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    // Not picked up before this time, e.g. while waiting to retry
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    // Worker processing the job and when it claimed it; a lock that's too old means the
+    // worker died and the job is queued again
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+      maxlength: 2000,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    // Finished jobs are removed once their retention window ends
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'jobs',
+  }
+);
+
+// Claiming the next queued job
+jobSchema.index({ status: 1, runAt: 1, createdAt: 1 });
+// Finding jobs whose worker died
+jobSchema.index({ status: 1, lockedAt: 1 });
+jobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Job = mongoose.model<IJob>('Job', jobSchema);
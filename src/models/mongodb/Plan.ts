@@ -0,0 +1,122 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import {
+  PLAN_FEATURES,
+  PLANS,
+  PlanFeature,
+  PlanName,
+  QuotaContentType,
+} from '../../utils/constants';
+
+export interface IPlanQuota {
+  daily: number;
+  monthly: number;
+}
+
+export interface IPlanBudgets {
+  monthlyUsd: number | null;
+  perUserMonthlyUsd: number | null;
+}
+
+export interface IPlan extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: PlanName;
+  displayName: string;
+  description?: string;
+  quotas: Record<QuotaContentType, IPlanQuota>;
+  maxContentLength: number;
+  features: PlanFeature[];
+  budgets: IPlanBudgets;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const planQuotaSchema = new Schema<IPlanQuota>(
+  {
+    daily: {
+      type: Number,
+      required: true,
+      min: [0, 'Daily quota cannot be negative'],
+    },
+    monthly: {
+      type: Number,
+      required: true,
+      min: [0, 'Monthly quota cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+const planSchema = new Schema<IPlan>(
+  {
+    name: {
+      type: String,
+      enum: Object.values(PLANS),
+      required: [true, 'Plan name is required'],
+      unique: true,
+    },
+    displayName: {
+      type: String,
+      required: [true, 'Display name is required'],
+      trim: true,
+      maxlength: [50, 'Display name cannot be longer than 50 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot be longer than 500 characters'],
+    },
+    // Analyses allowed per content type, per day and per month
+    quotas: {
+      content: {
+        type: planQuotaSchema,
+        required: true,
+      },
+      video: {
+        type: planQuotaSchema,
+        required: true,
+      },
+    },
+    maxContentLength: {
+      type: Number,
+      required: true,
+      min: [1, 'Max content length must be at least 1'],
+    },
+    features: {
+      type: [String],
+      enum: Object.values(PLAN_FEATURES),
+      default: [],
+    },
+    // AI spend limits in USD per UTC month, null for no limit
+    budgets: {
+      // Across every user on the plan
+      monthlyUsd: {
+        type: Number,
+        default: null,
+        min: [0, 'Budget cannot be negative'],
+      },
+      // For each user on the plan, unless the user has their own budget
+      perUserMonthlyUsd: {
+        type: Number,
+        default: null,
+        min: [0, 'Budget cannot be negative'],
+      },
+    },
+    // Plan given to users without one (only one plan should be the default)
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'plans',
+  }
+);
+
+export const Plan = mongoose.model<IPlan>('Plan', planSchema);
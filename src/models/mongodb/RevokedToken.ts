@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRevokedToken extends Document {
+  _id: mongoose.Types.ObjectId;
+  jti: string;
+  userId: string;
+  reason: string;
+  expiresAt: Date;
+  revokedAt: Date;
+}
+
+const revokedTokenSchema = new Schema<IRevokedToken>(
+  {
+    jti: {
+      type: String,
+      required: [true, 'Token id is required'],
+      unique: true,
+    },
+    userId: {
+      type: String,
+      required: [true, 'User id is required'],
+      index: true,
+    },
+    reason: {
+      type: String,
+      default: 'logout',
+      maxlength: [100, 'Reason cannot be longer than 100 characters'],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+    collection: 'revoked_tokens',
+  }
+);
+
+// Entries are only needed until the token would have expired on its own
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IUsageCounterEvent {
+  id: string;
+  at: Date;
+}
+
+export interface IUsageCounter extends Document {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  bucket: string;
+  count: number;
+  events: IUsageCounterEvent[];
+  windowStart?: Date;
+  expiresAt: Date;
+}
+
+const usageCounterEventSchema = new Schema<IUsageCounterEvent>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    at: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const usageCounterSchema = new Schema<IUsageCounter>(
+  {
+    // Counter key, e.g. trial:<userId>:content
+    key: {
+      type: String,
+      required: [true, 'Counter key is required'],
+      index: true,
+    },
+    // Storage key: the counter key plus the window start for fixed windows
+    bucket: {
+      type: String,
+      required: [true, 'Counter bucket is required'],
+      unique: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+    // Event times, only kept for rolling windows
+    events: {
+      type: [usageCounterEventSchema],
+      default: [],
+    },
+    windowStart: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: false,
+    collection: 'usage_counters',
+  }
+);
+
+// Counters are removed once their window has passed
+usageCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const UsageCounter = mongoose.model<IUsageCounter>('UsageCounter', usageCounterSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type UsageRecordStatus = 'success' | 'error';
+
+export interface IUsageRecord extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  plan?: string;
+  analysisId: string;
+  contentType: string;
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+  costUsd: number;
+  cacheHit: boolean;
+  latencyMs: number;
+  status: UsageRecordStatus;
+  createdAt: Date;
+}
+
+const usageRecordSchema = new Schema<IUsageRecord>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    // Plan the user was on, for plan budgets
+    plan: {
+      type: String,
+    },
+    analysisId: {
+      type: String,
+      required: [true, 'Analysis ID is required'],
+    },
+    // content, video or dashboard
+    contentType: {
+      type: String,
+      required: [true, 'Content type is required'],
+    },
+    modelName: {
+      type: String,
+      required: [true, 'Model name is required'],
+    },
+    inputTokens: {
+      type: Number,
+      default: 0,
+    },
+    outputTokens: {
+      type: Number,
+      default: 0,
+    },
+    webSearchRequests: {
+      type: Number,
+      default: 0,
+    },
+    // Estimated from the model price table at the time of the call
+    costUsd: {
+      type: Number,
+      default: 0,
+    },
+    // Served from the analysis cache, so no tokens were used
+    cacheHit: {
+      type: Boolean,
+      default: false,
+    },
+    latencyMs: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: ['success', 'error'],
+      default: 'success',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'usage_records',
+  }
+);
+
+usageRecordSchema.index({ userId: 1, createdAt: -1 });
+usageRecordSchema.index({ createdAt: -1 });
+usageRecordSchema.index({ modelName: 1, createdAt: -1 });
+usageRecordSchema.index({ plan: 1, createdAt: -1 });
+
+export const UsageRecord = mongoose.model<IUsageRecord>('UsageRecord', usageRecordSchema);
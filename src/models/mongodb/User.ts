@@ -1,6 +1,17 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import config from '../../config';
+import { AUTH, PLANS, PlanName, USER_ROLES, UserRole } from '../../utils/constants';
+
+export interface IRefreshToken {
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  createdAt: Date;
+  createdByIp?: string;
+  userAgent?: string;
+}
 
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
@@ -8,7 +19,9 @@ export interface IUser extends Document {
   password: string;
   firstName: string;
   lastName: string;
-  role: 'user' | 'admin' | 'moderator';
+  role: UserRole;
+  plan: PlanName;
+  monthlyBudgetUsd?: number | null;
   isEmailVerified: boolean;
   emailVerificationToken?: string;
   emailVerificationExpires?: Date;
@@ -17,7 +30,8 @@ export interface IUser extends Document {
   lastLoginAt?: Date;
   loginAttempts: number;
   lockUntil?: Date;
-  refreshTokens: string[];
+  refreshTokens: IRefreshToken[];
+  tokenVersion: number;
   profile: {
     avatar?: string;
     bio?: string;
@@ -45,6 +59,36 @@ export interface IUser extends Document {
   getFullName(): string;
 }
 
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    createdByIp: {
+      type: String,
+      maxlength: [45, 'IP address cannot be longer than 45 characters'],
+    },
+    userAgent: {
+      type: String,
+      maxlength: [500, 'User agent cannot be longer than 500 characters'],
+    },
+  },
+  { _id: false }
+);
+
 const userSchema = new Schema<IUser>(
   {
     email: {
@@ -76,10 +120,22 @@ const userSchema = new Schema<IUser>(
     },
     role: {
       type: String,
-      enum: ['user', 'admin', 'moderator'],
-      default: 'user',
+      enum: Object.values(USER_ROLES),
+      default: USER_ROLES.USER,
       index: true
     },
+    plan: {
+      type: String,
+      enum: Object.values(PLANS),
+      default: PLANS.FREE,
+      index: true
+    },
+    // AI spend limit in USD per UTC month, overrides the plan's per-user budget
+    monthlyBudgetUsd: {
+      type: Number,
+      default: null,
+      min: [0, 'Budget cannot be negative']
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -108,13 +164,69 @@ const userSchema = new Schema<IUser>(
       type: Date,
       default: null,
     },
+    loginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lockUntil: {
+      type: Date,
+    },
+    profile: {
+      avatar: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Avatar URL cannot be longer than 500 characters'],
+      },
+      bio: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Bio cannot be longer than 500 characters'],
+      },
+      phone: {
+        type: String,
+        trim: true,
+        maxlength: [20, 'Phone number cannot be longer than 20 characters'],
+      },
+      preferences: {
+        theme: {
+          type: String,
+          enum: ['light', 'dark', 'system'],
+          default: 'system',
+        },
+        language: {
+          type: String,
+          trim: true,
+          default: 'en',
+          maxlength: [10, 'Language cannot be longer than 10 characters'],
+        },
+        notifications: {
+          email: {
+            type: Boolean,
+            default: true,
+          },
+          push: {
+            type: Boolean,
+            default: false,
+          },
+        },
+      },
+    },
+    refreshTokens: {
+      type: [refreshTokenSchema],
+      default: [],
+      select: false
+    },
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
     toJSON: {
       virtuals: true,
       transform: function (doc, ret) {
-        const { password, __v, ...cleanedRet } = ret;
+        const { password, refreshTokens, __v, ...cleanedRet } = ret;
         return cleanedRet;
       },
     },
@@ -125,6 +237,9 @@ const userSchema = new Schema<IUser>(
 // Indexes
 userSchema.index({ createdAt: -1 });
 userSchema.index({ isActive: 1 });
+userSchema.index({ 'refreshTokens.tokenHash': 1 });
+userSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+userSchema.index({ passwordResetToken: 1 }, { sparse: true });
 
 // Virtual for full name
 userSchema.virtual('fullName').get(function (this: IUser) {
@@ -158,4 +273,63 @@ userSchema.methods.comparePassword = async function (
   }
 };
 
+// Method to generate email verification token
+// Stores the hashed token with a 24h expiry and returns the plain token for the email link
+userSchema.methods.generateEmailVerificationToken = function (this: IUser): string {
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+
+  this.emailVerificationToken = crypto.createHash('sha256').update(verificationToken).digest('hex');
+  this.emailVerificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+
+  return verificationToken;
+};
+
+// Method to generate password reset token
+// Stores the hashed token with a 1h expiry and returns the plain token for the email link
+userSchema.methods.generatePasswordResetToken = function (this: IUser): string {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+
+  this.passwordResetToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  this.passwordResetExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+
+  return resetToken;
+};
+
+// Method to check if the account is currently locked
+userSchema.methods.isAccountLocked = function (this: IUser): boolean {
+  return Boolean(this.lockUntil && this.lockUntil.getTime() > Date.now());
+};
+
+// Method to record a failed login
+// Once MAX_LOGIN_ATTEMPTS is reached, every further failure locks the account
+// for twice as long as the previous lock, up to MAX_LOCK_DURATION
+userSchema.methods.incrementLoginAttempts = async function (this: IUser): Promise<void> {
+  const { MAX_LOGIN_ATTEMPTS, BASE_LOCK_DURATION, MAX_LOCK_DURATION } = AUTH.LOCKOUT;
+
+  // Atomic increment so concurrent failures are all counted
+  const updated = await User.findByIdAndUpdate(
+    this._id,
+    { $inc: { loginAttempts: 1 } },
+    { new: true, projection: { loginAttempts: 1 } }
+  );
+  const attempts = updated?.loginAttempts ?? this.loginAttempts + 1;
+  this.loginAttempts = attempts;
+
+  if (attempts >= MAX_LOGIN_ATTEMPTS) {
+    const duration = Math.min(
+      BASE_LOCK_DURATION * Math.pow(2, attempts - MAX_LOGIN_ATTEMPTS),
+      MAX_LOCK_DURATION
+    );
+    this.lockUntil = new Date(Date.now() + duration);
+    await User.updateOne({ _id: this._id }, { $set: { lockUntil: this.lockUntil } });
+  }
+};
+
+// Method to clear failed login attempts and any lock
+userSchema.methods.resetLoginAttempts = async function (this: IUser): Promise<void> {
+  this.loginAttempts = 0;
+  this.lockUntil = undefined;
+  await User.updateOne({ _id: this._id }, { $set: { loginAttempts: 0 }, $unset: { lockUntil: 1 } });
+};
+
 export const User = mongoose.model<IUser>('User', userSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { WEBHOOK_EVENTS, WebhookEvent } from '../../utils/constants';
+
+// Whose events a webhook receives: its owner's, or every user's (admins only)
+export type WebhookScope = 'user' | 'all';
+
+export interface IWebhook extends Document {
+  _id: mongoose.Types.ObjectId;
+  id: string;
+  userId: string;
+  url: string;
+  events: WebhookEvent[];
+  scope: WebhookScope;
+  secret: string;
+  description: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new Schema<IWebhook>(
+  {
+    id: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Owner, who can manage the webhook and its deliveries
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    url: {
+      type: String,
+      required: [true, 'URL is required'],
+      trim: true,
+      maxlength: 2048,
+    },
+    events: {
+      type: [String],
+      enum: WEBHOOK_EVENTS,
+      validate: {
+        validator: (events: string[]) => events.length > 0,
+        message: 'At least one event is required',
+      },
+    },
+    scope: {
+      type: String,
+      enum: ['user', 'all'],
+      default: 'user',
+    },
+    // Signs deliveries; only shown when the webhook is created
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    description: {
+      type: String,
+      default: '',
+      trim: true,
+      maxlength: 500,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'webhooks',
+  }
+);
+
+webhookSchema.index({ userId: 1, createdAt: -1 });
+// Finding the webhooks an event goes to
+webhookSchema.index({ events: 1, isActive: 1, scope: 1, userId: 1 });
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { WEBHOOK_EVENTS, WebhookEvent } from '../../utils/constants';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface IWebhookDelivery extends Document {
+  _id: mongoose.Types.ObjectId;
+  id: string;
+  webhookId: string;
+  userId: string;
+  eventId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  redeliveryOf: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    id: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    webhookId: {
+      type: String,
+      required: [true, 'Webhook ID is required'],
+    },
+    // Owner of the webhook
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    // Shared by every delivery of one event, redeliveries included, so receivers can dedupe
+    eventId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: WEBHOOK_EVENTS,
+      required: true,
+    },
+    // Body that's sent, signed with the webhook's secret
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    // Outcome of the last attempt
+    responseStatus: {
+      type: Number,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+      maxlength: 2000,
+    },
+    durationMs: {
+      type: Number,
+      default: null,
+    },
+    lastAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+    // Delivery this one was redelivered from
+    redeliveryOf: {
+      type: String,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'webhook_deliveries',
+  }
+);
+
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  'WebhookDelivery',
+  webhookDeliverySchema
+);
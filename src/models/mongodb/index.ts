@@ -1,5 +1,12 @@
 // MongoDB Models Export
-export { User, IUser } from './User';
+export { User, IUser, IRefreshToken } from './User';
 export { AuditLog, IAuditLog } from './AuditLog';
 export { ChatModel, Chat } from './Chats';
 export { TrendsModel, Trends } from './Trends';
+export { RevokedToken, IRevokedToken } from './RevokedToken';
+export { UsageCounter, IUsageCounter, IUsageCounterEvent } from './UsageCounter';
+export { Plan, IPlan, IPlanBudgets, IPlanQuota } from './Plan';
+export { UsageRecord, IUsageRecord, UsageRecordStatus } from './UsageRecord';
+export { Job, IJob, JobStatus } from './Job';
+export { Webhook, IWebhook, WebhookScope } from './Webhook';
+export { WebhookDelivery, IWebhookDelivery, WebhookDeliveryStatus } from './WebhookDelivery';
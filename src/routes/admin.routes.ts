@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { AuditLogController } from '../controllers/auditLog.controller';
+import { PlanController } from '../controllers/plan.controller';
+import { UsageController } from '../controllers/usage.controller';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { errorHandler } from '../middleware/errorHandler';
+
+/**
+ * Admin Routes
+ * Administrative endpoints, restricted to admins
+ */
+
+const router = Router();
+
+// Every admin route requires an authenticated admin
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * User Management
+ */
+
+// List and inspect users
+router.get('/users', AdminController.listUsers);
+router.get('/users/:id', AdminController.getUser);
+
+// Activate / deactivate accounts
+router.post('/users/:id/activate', AdminController.activateUser);
+router.post('/users/:id/deactivate', AdminController.deactivateUser);
+
+// End every session of a user
+router.post('/users/:id/logout', AdminController.forceLogout);
+
+// Reset content analysis trial limits
+router.post('/users/:id/trial-reset', AdminController.resetTrialLimit);
+
+// Unlock an account locked by failed logins
+router.post('/users/:id/unlock', AdminController.unlockUser);
+
+// Change a user's role
+router.patch('/users/:id/role', AdminController.changeUserRole);
+
+// Move a user to another plan
+router.patch('/users/:id/plan', AdminController.changeUserPlan);
+
+// Set a user's monthly AI spend budget
+router.patch('/users/:id/budget', AdminController.changeUserBudget);
+
+/**
+ * Plans
+ */
+
+// List plans
+router.get('/plans', PlanController.listPlans);
+
+// Change a plan's quotas, limits and features
+router.patch('/plans/:name', PlanController.updatePlan);
+
+/**
+ * Usage
+ */
+
+// Analyses and tokens across users, for cost reporting
+router.get('/usage', UsageController.getUsageRollup);
+
+// Global and per-plan AI spend against budgets this month
+router.get('/budgets', UsageController.getBudgets);
+
+/**
+ * Audit Logs
+ */
+
+// Query audit logs
+router.get('/audit-logs', AuditLogController.listLogs);
+
+// Export audit logs as CSV or NDJSON
+router.get('/audit-logs/export', AuditLogController.exportLogs);
+
+// Apply error handler
+router.use(errorHandler);
+
+export default router;
@@ -1,6 +1,11 @@
 import { Router } from 'express';
+import { AuditLogController } from '../controllers/auditLog.controller';
 import { AuthController } from '../controllers/auth.controller';
+import { PlanController } from '../controllers/plan.controller';
+import { ProfileController } from '../controllers/profile.controller';
+import { authenticateToken, rateLimitByUser } from '../middleware/auth';
 import { errorHandler } from '../middleware/errorHandler';
+import { RATE_LIMITS } from '../utils/constants';
 import { SuccessResponse } from '../utils/response';
 
 /**
@@ -19,6 +24,77 @@ router.post('/register', AuthController.register);
 
 // User Login
 router.post('/login', AuthController.login);
+
+// Refresh Token Rotation
+router.post('/refresh', AuthController.refresh);
+
+// Email Verification
+router.post('/verify-email', AuthController.verifyEmail);
+
+// Password Reset
+router.post(
+  '/forgot-password',
+  rateLimitByUser(RATE_LIMITS.PASSWORD_RESET.MAX_REQUESTS, RATE_LIMITS.PASSWORD_RESET.WINDOW_MS),
+  AuthController.forgotPassword
+);
+router.post(
+  '/reset-password',
+  rateLimitByUser(RATE_LIMITS.PASSWORD_RESET.MAX_REQUESTS, RATE_LIMITS.PASSWORD_RESET.WINDOW_MS),
+  AuthController.resetPassword
+);
+
+/**
+ * Protected Routes (Authentication required)
+ */
+
+// Logout current session
+router.post('/logout', authenticateToken, AuthController.logout);
+
+// Logout all sessions
+router.post('/logout-all', authenticateToken, AuthController.logoutAll);
+
+// Resend verification email
+router.post(
+  '/resend-verification',
+  authenticateToken,
+  rateLimitByUser(RATE_LIMITS.EMAIL_VERIFICATION.MAX_REQUESTS, RATE_LIMITS.EMAIL_VERIFICATION.WINDOW_MS),
+  AuthController.resendVerification
+);
+
+/**
+ * Profile Routes (Authentication required)
+ */
+
+// Current user's profile and preferences
+router.get('/me', authenticateToken, ProfileController.getProfile);
+router.patch('/me', authenticateToken, ProfileController.updateProfile);
+
+// Current user's recent security activity
+router.get('/me/security-activity', authenticateToken, AuditLogController.getSecurityActivity);
+
+// Current user's plan and quota usage
+router.get('/me/plan', authenticateToken, PlanController.getMyPlan);
+
+// Credential changes and account deletion require the current password
+router.post(
+  '/me/change-password',
+  authenticateToken,
+  rateLimitByUser(RATE_LIMITS.AUTH.MAX_REQUESTS, RATE_LIMITS.AUTH.WINDOW_MS),
+  ProfileController.changePassword
+);
+router.post(
+  '/me/change-email',
+  authenticateToken,
+  rateLimitByUser(RATE_LIMITS.AUTH.MAX_REQUESTS, RATE_LIMITS.AUTH.WINDOW_MS),
+  ProfileController.changeEmail
+);
+router.delete(
+  '/me',
+  authenticateToken,
+  rateLimitByUser(RATE_LIMITS.AUTH.MAX_REQUESTS, RATE_LIMITS.AUTH.WINDOW_MS),
+  ProfileController.deleteAccount
+);
+
 /**
  * Health Check Route
  */
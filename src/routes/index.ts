@@ -1,8 +1,25 @@
 import { Router } from 'express';
-import { analyzeContent, getAnalyzedContent } from '../controllers/analyzer.controller';
+import {
+  analyzeContent,
+  analyzeContentBatch,
+  analyzeContentStream,
+  compareContent,
+} from '../controllers/analyzer.controller';
+import { ChatController } from '../controllers/chat.controller';
 import { fetchDashboardTrends, getDashboardData } from '../controllers/dashboard.controller';
-import { authenticateToken, rateLimitByUser } from '../middleware/auth';
+import { JobController } from '../controllers/job.controller';
+import { UsageController } from '../controllers/usage.controller';
+import { WebhookController } from '../controllers/webhook.controller';
+import {
+  authenticateToken,
+  rateLimitByUser,
+  requireOwnershipOrAdmin,
+  requirePermission,
+  requireVerified,
+} from '../middleware/auth';
+import { USER_PERMISSIONS } from '../utils/constants';
 import { NotFoundResponse, SuccessResponse } from '../utils/response';
+import adminRoutes from './admin.routes';
 import authRoutes from './auth.routes';
 
 /**
@@ -32,10 +49,43 @@ const v1Router = Router();
 // Authentication routes (public and protected)
 v1Router.use('/auth', authRoutes);
 
-v1Router.post('/app/analyze', authenticateToken, rateLimitByUser(50, 3600000), analyzeContent);
+// Admin routes (admin only)
+v1Router.use('/admin', adminRoutes);
+
+// Guests can only read; creating, changing and deleting need the matching permission
+const canWrite = requirePermission(USER_PERMISSIONS.WRITE);
+const canUpdate = requirePermission(USER_PERMISSIONS.UPDATE);
+const canDelete = requirePermission(USER_PERMISSIONS.DELETE);
+
+// Streamed, batch and regular analyses and comparisons share one rate limit
+const analyzeRateLimit = rateLimitByUser(50, 3600000);
+v1Router.post('/app/analyze', authenticateToken, canWrite, requireVerified, analyzeRateLimit, analyzeContent);
+v1Router.post('/app/analyze/stream', authenticateToken, canWrite, requireVerified, analyzeRateLimit, analyzeContentStream);
+// A batch counts once against the rate limit; each analyzed item counts against the quotas
+v1Router.post('/app/analyze/batch', authenticateToken, canWrite, requireVerified, analyzeRateLimit, analyzeContentBatch);
+v1Router.post('/app/compare', authenticateToken, canWrite, requireVerified, analyzeRateLimit, compareContent);
+v1Router.get('/app/jobs/:id', authenticateToken, JobController.loadJob, requireOwnershipOrAdmin(JobController.getOwnerId), JobController.getJob);
+v1Router.get('/app/usage', authenticateToken, UsageController.getMyUsage);
 v1Router.get('/app/dashboard', authenticateToken, getDashboardData);
-v1Router.post('/app/dashboard/trends', authenticateToken, fetchDashboardTrends);
-v1Router.get('/app/:type/chats', authenticateToken, getAnalyzedContent);
+v1Router.post('/app/dashboard/trends', authenticateToken, canWrite, fetchDashboardTrends);
+
+// Analysis history (owners, or admins for any user's analysis)
+const chatOwnerOrAdmin = requireOwnershipOrAdmin(ChatController.getOwnerId);
+v1Router.delete('/app/chats', authenticateToken, canDelete, ChatController.deleteChats);
+v1Router.get('/app/chats/:id', authenticateToken, ChatController.loadChat(), chatOwnerOrAdmin, ChatController.getChat);
+v1Router.delete('/app/chats/:id', authenticateToken, canDelete, ChatController.loadChat(), chatOwnerOrAdmin, ChatController.deleteChat);
+v1Router.post('/app/chats/:id/restore', authenticateToken, canUpdate, ChatController.loadChat(true), chatOwnerOrAdmin, ChatController.restoreChat);
+v1Router.get('/app/:type/chats', authenticateToken, ChatController.listChats);
+
+// Webhooks (owners, or admins for any user's webhook)
+const webhookOwnerOrAdmin = [authenticateToken, WebhookController.loadWebhook, requireOwnershipOrAdmin(WebhookController.getOwnerId)];
+v1Router.post('/app/webhooks', authenticateToken, canWrite, requireVerified, WebhookController.createWebhook);
+v1Router.get('/app/webhooks', authenticateToken, WebhookController.listWebhooks);
+v1Router.get('/app/webhooks/:id', ...webhookOwnerOrAdmin, WebhookController.getWebhook);
+v1Router.patch('/app/webhooks/:id', ...webhookOwnerOrAdmin, canUpdate, WebhookController.updateWebhook);
+v1Router.delete('/app/webhooks/:id', ...webhookOwnerOrAdmin, canDelete, WebhookController.deleteWebhook);
+v1Router.get('/app/webhooks/:id/deliveries', ...webhookOwnerOrAdmin, WebhookController.listDeliveries);
+v1Router.post('/app/webhooks/:id/deliveries/:deliveryId/redeliver', ...webhookOwnerOrAdmin, canWrite, WebhookController.redeliver);
 
 
 // Mount v1 routes
@@ -0,0 +1,112 @@
+/**
+ * Chat Results Migration
+ * Converts analyses stored as raw model output (ChatModel.response) into validated result
+ * documents with headline scores. Output that isn't valid JSON or doesn't match its schema
+ * is left as it is and reported.
+ *
+ * Usage: npm run migrate:chat-results [-- --dry-run]
+ */
+
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { ChatModel } from '../models/mongodb/Chats';
+import { getAnalysisScores, isAnalysisType, validateAnalysis } from '../utils/analysis';
+import { logger } from '../utils/logger';
+
+const BATCH_SIZE = 500;
+
+interface MigrationStats {
+  scanned: number;
+  migrated: number;
+  invalidJson: number;
+  invalidSchema: number;
+}
+
+const migrate = async (dryRun: boolean): Promise<MigrationStats> => {
+  const stats: MigrationStats = { scanned: 0, migrated: 0, invalidJson: 0, invalidSchema: 0 };
+  let batch: Parameters<typeof ChatModel.bulkWrite>[0] = [];
+
+  const flush = async (): Promise<void> => {
+    if (batch.length > 0 && !dryRun) {
+      await ChatModel.bulkWrite(batch, { ordered: false });
+    }
+    batch = [];
+  };
+
+  const cursor = ChatModel.find({
+    type: { $in: ['content', 'video'] },
+    result: null,
+    response: { $nin: [null, ''] },
+  })
+    .select('id type response')
+    .lean()
+    .cursor();
+
+  for await (const chat of cursor) {
+    stats.scanned++;
+
+    if (!isAnalysisType(chat.type)) {
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(chat.response);
+    } catch {
+      stats.invalidJson++;
+      logger.warn('Skipping analysis with invalid JSON response', { chatId: chat.id });
+      continue;
+    }
+
+    const validation = validateAnalysis(chat.type, parsed);
+    if (!validation.success) {
+      stats.invalidSchema++;
+      logger.warn('Skipping analysis that does not match its schema', {
+        chatId: chat.id,
+        type: chat.type,
+        errors: validation.errors.slice(0, 5),
+      });
+      continue;
+    }
+
+    batch.push({
+      updateOne: {
+        filter: { _id: chat._id, result: null },
+        update: {
+          $set: {
+            result: validation.data,
+            scores: getAnalysisScores(chat.type, validation.data),
+            response: '',
+          },
+        },
+      },
+    });
+    stats.migrated++;
+
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+
+  await flush();
+  return stats;
+};
+
+const run = async (): Promise<void> => {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    await connectDatabase();
+
+    const stats = await migrate(dryRun);
+    logger.info(`Chat results migration ${dryRun ? '(dry run) ' : ''}finished`, stats);
+  } catch (error) {
+    logger.error('Chat results migration failed', {
+      error: error instanceof Error ? error.message : error,
+    });
+    process.exitCode = 1;
+  } finally {
+    await disconnectDatabase();
+  }
+};
+
+run();
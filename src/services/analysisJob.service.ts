@@ -0,0 +1,157 @@
+import config from '../config';
+import { PromptType } from '../constants';
+import { ChatModel, ChatStatus } from '../models/mongodb/Chats';
+import { IJob, JobStatus } from '../models/mongodb/Job';
+import { generateUUID } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+import { ChatDetail, chatService } from './chat.service';
+import contentService from './core/ai/anthropic/anthropic.service';
+import { jobQueueService } from './jobQueue.service';
+import { QuotaReservation, trialLimitService } from './trialLimit.service';
+
+export const ANALYSIS_JOB_TYPE = 'analysis';
+
+export interface AnalysisJobInput {
+  userId: string;
+  content: string;
+  contentType: string;
+  plan: string;
+  useTooling: boolean;
+  model?: string;
+  // Reserved when the job was accepted; released if the analysis fails
+  reservation: QuotaReservation;
+}
+
+interface AnalysisJobPayload extends Omit<AnalysisJobInput, 'userId'> {
+  analysisId: string;
+}
+
+export interface AnalysisJobStatus {
+  id: string;
+  userId: string;
+  status: JobStatus;
+  analysisId: string;
+  attempts: number;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  // The saved analysis once the job has finished
+  analysis: ChatDetail | null;
+}
+
+/**
+ * Analysis Job Service
+ * Runs analyses in the background: accepting one saves a pending chat and queues a job,
+ * and the job queue's worker completes the chat (or marks it failed) like a regular analysis,
+ * with the same caching, history and usage metering.
+ */
+export class AnalysisJobService {
+  private static instance: AnalysisJobService;
+
+  private constructor() {
+    jobQueueService.registerHandler(ANALYSIS_JOB_TYPE, job => this.process(job));
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AnalysisJobService {
+    if (!AnalysisJobService.instance) {
+      AnalysisJobService.instance = new AnalysisJobService();
+    }
+    return AnalysisJobService.instance;
+  }
+
+  /**
+   * Save a pending chat for the analysis and queue it
+   */
+  public async enqueue(input: AnalysisJobInput): Promise<{ jobId: string; analysisId: string }> {
+    const { userId, ...rest } = input;
+    const analysisId = generateUUID();
+
+    await ChatModel.create({
+      id: analysisId,
+      message: input.content,
+      sender: userId,
+      type: input.contentType,
+      status: ChatStatus.PENDING,
+      modelName: input.model || config.ai.anthropic.model,
+    });
+
+    const payload: AnalysisJobPayload = { ...rest, analysisId };
+    const job = await jobQueueService.enqueue(ANALYSIS_JOB_TYPE, userId, payload);
+
+    return { jobId: job.id, analysisId };
+  }
+
+  /**
+   * An analysis job's status, or null if it doesn't exist (or isn't an analysis job)
+   */
+  public async getJobStatus(id: string): Promise<AnalysisJobStatus | null> {
+    const job = await jobQueueService.getJob(id);
+    if (!job || job.type !== ANALYSIS_JOB_TYPE) {
+      return null;
+    }
+
+    const finished = job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED;
+    const { analysisId } = job.payload as AnalysisJobPayload;
+
+    return {
+      id: job.id,
+      userId: job.userId,
+      status: job.status,
+      analysisId,
+      attempts: job.attempts,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      analysis: finished ? await chatService.getChat(analysisId) : null,
+    };
+  }
+
+  private async process(job: IJob): Promise<void> {
+    const { analysisId, content, contentType, plan, useTooling, model, reservation } =
+      job.payload as AnalysisJobPayload;
+
+    try {
+      await contentService.analyzeContent(
+        undefined,
+        content,
+        contentType === 'video' ? PromptType.VIDEO : PromptType.CONTENT,
+        {
+          cacheFirst: true,
+          userId: job.userId,
+          plan,
+          contentType,
+          useTooling,
+          model,
+          analysisId,
+          cacheConfig: {
+            ttl: 3600, // Cache for 1 hour
+            enabled: true,
+          },
+        }
+      );
+
+      trialLimitService.commit(reservation);
+    } catch (error) {
+      // Failed analyses don't use up a try
+      await trialLimitService.release(reservation);
+
+      // The analysis normally saves its own failure; this covers errors before it could
+      const failureReason = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+      await ChatModel.updateOne(
+        { id: analysisId, status: ChatStatus.PENDING },
+        { $set: { status: ChatStatus.FAILED, failureReason } }
+      );
+
+      logger.warn('Analysis job failed', { jobId: job.id, analysisId, error: failureReason });
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance for easy use
+export const analysisJobService = AnalysisJobService.getInstance();
@@ -1,6 +1,7 @@
 import { Request } from 'express';
 import { AuditLog, IAuditLog } from '../models';
 import { logger } from '../utils/logger';
+import { sanitizers } from '../utils/validation';
 
 export interface AuditLogOptions {
   ipAddress?: string;
@@ -10,7 +11,11 @@ export interface AuditLogOptions {
 
 export interface AuditLogQuery {
   action?: string;
+  actions?: string[];
   user?: string;
+  userId?: string;
+  ipAddress?: string;
+  requestId?: string;
   startDate?: Date;
   endDate?: Date;
   page?: number;
@@ -114,7 +119,7 @@ class AuditLogService {
    * Log from Express request context
    */
   async logFromRequest(
-    req: Request,
+    req: Request | undefined,
     action: string,
     description: string,
     data?: any,
@@ -132,34 +137,13 @@ class AuditLogService {
 
   /**
    * Query audit logs with filters and pagination
+   * Returned data is passed through sanitizeData, so entries written before a
+   * field became sensitive are redacted too
    */
   async query(queryOptions: AuditLogQuery): Promise<AuditLogResult> {
     try {
-      const {
-        action,
-        user,
-        startDate,
-        endDate,
-        page = 1,
-        limit = 50
-      } = queryOptions;
-
-      // Build filter object
-      const filter: any = {};
-      
-      if (action) {
-        filter.action = { $regex: action, $options: 'i' }; // Case-insensitive partial match
-      }
-      
-      if (user) {
-        filter.user = { $regex: user, $options: 'i' }; // Case-insensitive partial match
-      }
-      
-      if (startDate || endDate) {
-        filter.timestamp = {};
-        if (startDate) filter.timestamp.$gte = startDate;
-        if (endDate) filter.timestamp.$lte = endDate;
-      }
+      const { page = 1, limit = 50 } = queryOptions;
+      const filter = this.buildFilter(queryOptions);
 
       // Calculate pagination
       const skip = (page - 1) * limit;
@@ -174,7 +158,7 @@ class AuditLogService {
         .lean(); // Return plain objects instead of Mongoose documents for better performance
 
       return {
-        logs: logs as IAuditLog[],
+        logs: logs.map(log => this.sanitizeLog(log as IAuditLog)),
         total,
         page,
         totalPages,
@@ -190,6 +174,70 @@ class AuditLogService {
     }
   }
 
+  /**
+   * Stream sanitized audit logs matching the filters, most recent first (used for exports)
+   */
+  async *stream(queryOptions: AuditLogQuery, maxRows: number): AsyncGenerator<IAuditLog> {
+    const cursor = AuditLog.find(this.buildFilter(queryOptions))
+      .sort({ timestamp: -1 })
+      .limit(maxRows)
+      .lean()
+      .cursor();
+
+    for await (const log of cursor) {
+      yield this.sanitizeLog(log as IAuditLog);
+    }
+  }
+
+  /**
+   * Build the MongoDB filter for a query
+   */
+  private buildFilter(queryOptions: AuditLogQuery): Record<string, any> {
+    const { action, actions, user, userId, ipAddress, requestId, startDate, endDate } = queryOptions;
+    const filter: Record<string, any> = {};
+
+    if (actions && actions.length > 0) {
+      filter.action = { $in: actions };
+    } else if (action) {
+      filter.action = { $regex: sanitizers.escapeRegex(action), $options: 'i' }; // Case-insensitive partial match
+    }
+
+    if (user) {
+      filter.user = { $regex: sanitizers.escapeRegex(user), $options: 'i' }; // Case-insensitive partial match
+    }
+
+    // Events about a user record either the user's own id or the id of the user an admin acted on
+    if (userId) {
+      filter.$or = [{ 'data.userId': userId }, { 'data.targetUserId': userId }];
+    }
+
+    if (ipAddress) {
+      filter.ipAddress = ipAddress;
+    }
+
+    if (requestId) {
+      filter['metadata.requestId'] = requestId;
+    }
+
+    if (startDate || endDate) {
+      filter.timestamp = {};
+      if (startDate) {
+        filter.timestamp.$gte = startDate;
+      }
+      if (endDate) {
+        filter.timestamp.$lte = endDate;
+      }
+    }
+
+    return filter;
+  }
+
+  /**
+   * Apply sanitizeData to a stored log before returning it
+   */
+  private sanitizeLog(log: IAuditLog): IAuditLog {
+    return { ...log, data: this.sanitizeData(log.data) } as IAuditLog;
+  }
 
   /**
    * Add an action to the exemption list
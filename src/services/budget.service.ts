@@ -0,0 +1,303 @@
+import config, { ModelPricing } from '../config';
+import { UsageRecord } from '../models';
+import { TIME } from '../utils/constants';
+import { logger } from '../utils/logger';
+import { auditLog } from './auditLog.service';
+import { TokenUsage } from './core/ai/anthropic/types';
+import { cacheService } from './core/cache/cache.service';
+import { counterService } from './core/counter/counter.service';
+import { CounterWindow } from './core/counter/types';
+import { PlanDefinition, planService } from './plan.service';
+import { userService } from './user.service';
+
+// How long a month's spend is trusted from memory before re-reading it (seconds)
+const SPEND_CACHE_TTL = 30;
+
+// Alert keys include the month, so this only has to outlive it
+const ALERT_WINDOW: CounterWindow = { type: 'rolling', durationMs: 2 * TIME.MONTH };
+
+export type BudgetScope = 'global' | 'plan' | 'user';
+
+export interface BudgetState {
+  scope: BudgetScope;
+  id: string;
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  exhausted: boolean;
+}
+
+export interface BudgetCheck {
+  action: 'allow' | 'downgrade' | 'refuse';
+  // Model to use instead, when downgrading
+  model?: string;
+  budgets: BudgetState[];
+  exhausted: BudgetState[];
+}
+
+const roundUsd = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Budget Service
+ * Estimates the cost of AI calls from the model price table and enforces monthly (UTC)
+ * spend budgets at global, plan and user level. Spend comes from usage records and is
+ * cached briefly per instance, so a budget can be overshot by a few concurrent calls.
+ */
+export class BudgetService {
+  private static instance: BudgetService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): BudgetService {
+    if (!BudgetService.instance) {
+      BudgetService.instance = new BudgetService();
+    }
+    return BudgetService.instance;
+  }
+
+  /**
+   * Price of a model, matched by the longest model name prefix in the price table
+   */
+  public getPricing(model: string): ModelPricing {
+    const { pricing } = config.costs;
+    const match = Object.keys(pricing)
+      .filter(prefix => prefix !== 'default' && model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!match) {
+      logger.warn('No price configured for model, using default pricing', { model });
+    }
+
+    return pricing[match || 'default'];
+  }
+
+  /**
+   * Estimated cost of a model call in USD
+   */
+  public estimateCost(model: string, usage: TokenUsage): number {
+    const pricing = this.getPricing(model);
+
+    return roundUsd(
+      (usage.inputTokens * pricing.inputPerMillion +
+        usage.outputTokens * pricing.outputPerMillion) /
+        1_000_000 +
+        (usage.webSearchRequests * config.costs.webSearchPerThousand) / 1000
+    );
+  }
+
+  /**
+   * This month's budgets that apply to a user; scopes without a limit are left out
+   * The user's own budget replaces the plan's per-user budget
+   */
+  public async getBudgets(userId: string, plan: PlanDefinition): Promise<BudgetState[]> {
+    const user = await userService.getAuthUser(userId);
+    const userLimit = user?.monthlyBudgetUsd ?? plan.budgets.perUserMonthlyUsd;
+
+    const limits: { scope: BudgetScope; id: string; limitUsd: number | null }[] = [
+      { scope: 'global', id: 'all', limitUsd: config.costs.globalMonthlyBudgetUsd },
+      { scope: 'plan', id: plan.name, limitUsd: plan.budgets.monthlyUsd },
+      { scope: 'user', id: userId, limitUsd: userLimit },
+    ];
+
+    return Promise.all(
+      limits
+        .filter(({ limitUsd }) => limitUsd !== null && limitUsd !== undefined)
+        .map(async ({ scope, id, limitUsd }) => {
+          const spentUsd = await this.getSpend(scope, id);
+          return this.toState(scope, id, limitUsd!, spentUsd);
+        })
+    );
+  }
+
+  /**
+   * This month's global budget and each plan's budget, for admins
+   */
+  public async getOverview(): Promise<BudgetState[]> {
+    const plans = await planService.listPlans();
+    const planBudgets = await Promise.all(
+      plans
+        .filter(plan => plan.budgets.monthlyUsd !== null)
+        .map(async plan =>
+          this.toState(
+            'plan',
+            plan.name,
+            plan.budgets.monthlyUsd!,
+            await this.getSpend('plan', plan.name)
+          )
+        )
+    );
+
+    return [...(await this.getGlobalBudgets()), ...planBudgets];
+  }
+
+  /**
+   * Decide whether a user's next AI call may run
+   * When a budget is exhausted the call is downgraded to a cheaper model, or refused
+   * if downgrading is disabled (AI_BUDGET_EXHAUSTED_ACTION=refuse)
+   */
+  public async checkBudget(userId: string, plan: PlanDefinition): Promise<BudgetCheck> {
+    return this.decide(await this.getBudgets(userId, plan));
+  }
+
+  /**
+   * Decide whether an AI call made for the system rather than a user (e.g. dashboard
+   * trends) may run; only the global budget applies
+   */
+  public async checkGlobalBudget(): Promise<BudgetCheck> {
+    return this.decide(await this.getGlobalBudgets());
+  }
+
+  /**
+   * Add a call's cost to this month's spend and raise alerts for thresholds it crossed
+   */
+  public async recordSpend(
+    userId: string,
+    planName: string | undefined,
+    costUsd: number
+  ): Promise<void> {
+    if (costUsd <= 0) {
+      return;
+    }
+
+    const scopes: { scope: BudgetScope; id: string }[] = [
+      { scope: 'global', id: 'all' },
+      { scope: 'user', id: userId },
+    ];
+    if (planName) {
+      scopes.push({ scope: 'plan', id: planName });
+    }
+
+    // Keep cached spend current instead of dropping it, so busy scopes aren't re-aggregated
+    scopes.forEach(({ scope, id }) => {
+      const key = this.spendKey(scope, id);
+      const cached = cacheService.getFromCache<number>(key);
+      if (cached !== null) {
+        cacheService.saveToCache(key, roundUsd(cached + costUsd), { expiresIn: SPEND_CACHE_TTL });
+      }
+    });
+
+    try {
+      // Calls without a plan weren't made for a user, so only the global budget applies
+      const plan = planName ? await planService.getPlan(planName) : null;
+      const budgets = plan ? await this.getBudgets(userId, plan) : await this.getGlobalBudgets();
+      await Promise.all(budgets.map(budget => this.raiseAlerts(budget)));
+    } catch (error) {
+      logger.error('Failed to check budget alerts', {
+        error: error instanceof Error ? error.message : error,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Spend in USD for a scope this month
+   */
+  public async getSpend(scope: BudgetScope, id: string): Promise<number> {
+    const key = this.spendKey(scope, id);
+    const cached = cacheService.getFromCache<number>(key);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const match: Record<string, unknown> = { createdAt: { $gte: this.getMonthStart() } };
+    if (scope === 'plan') {
+      match.plan = id;
+    } else if (scope === 'user') {
+      match.userId = id;
+    }
+
+    const [result] = await UsageRecord.aggregate<{ costUsd: number }>([
+      { $match: match },
+      { $group: { _id: null, costUsd: { $sum: '$costUsd' } } },
+    ]);
+
+    const spentUsd = roundUsd(result?.costUsd || 0);
+    cacheService.saveToCache(key, spentUsd, { expiresIn: SPEND_CACHE_TTL });
+
+    return spentUsd;
+  }
+
+  /**
+   * Audit each configured threshold the first time a budget crosses it in a month
+   * The alert key is claimed atomically, so only one instance raises each alert
+   */
+  private async raiseAlerts(budget: BudgetState): Promise<void> {
+    const ratio = budget.limitUsd > 0 ? budget.spentUsd / budget.limitUsd : 1;
+    const crossed = config.costs.alertThresholds.filter(threshold => ratio >= threshold);
+
+    for (const threshold of crossed) {
+      const claim = await counterService.tryIncrement(
+        `budget-alert:${this.getMonthKey()}:${budget.scope}:${budget.id}:${threshold}`,
+        ALERT_WINDOW,
+        1
+      );
+      if (!claim.accepted) {
+        continue;
+      }
+
+      const action = threshold >= 1 ? 'BUDGET_EXHAUSTED' : 'BUDGET_THRESHOLD_REACHED';
+      const description = `${budget.scope} budget ${budget.id} at ${Math.round(ratio * 100)}% ($${budget.spentUsd} of $${budget.limitUsd})`;
+
+      logger.warn('AI budget threshold reached', { ...budget, threshold });
+      await auditLog.log(action, 'SYSTEM', description, {
+        ...budget,
+        threshold,
+        month: this.getMonthKey(),
+        ...(budget.scope === 'user' && { userId: budget.id }),
+      });
+    }
+  }
+
+  private async getGlobalBudgets(): Promise<BudgetState[]> {
+    const limitUsd = config.costs.globalMonthlyBudgetUsd;
+    if (limitUsd === null) {
+      return [];
+    }
+
+    return [this.toState('global', 'all', limitUsd, await this.getSpend('global', 'all'))];
+  }
+
+  private decide(budgets: BudgetState[]): BudgetCheck {
+    const exhausted = budgets.filter(budget => budget.exhausted);
+
+    if (exhausted.length === 0) {
+      return { action: 'allow', budgets, exhausted };
+    }
+
+    const { onBudgetExhausted, downgradeModel } = config.costs;
+    if (onBudgetExhausted === 'downgrade' && downgradeModel) {
+      return { action: 'downgrade', model: downgradeModel, budgets, exhausted };
+    }
+
+    return { action: 'refuse', budgets, exhausted };
+  }
+
+  private toState(scope: BudgetScope, id: string, limitUsd: number, spentUsd: number): BudgetState {
+    return {
+      scope,
+      id,
+      limitUsd,
+      spentUsd,
+      remainingUsd: roundUsd(Math.max(0, limitUsd - spentUsd)),
+      exhausted: spentUsd >= limitUsd,
+    };
+  }
+
+  private getMonthStart(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  private getMonthKey(now: Date = new Date()): string {
+    return now.toISOString().slice(0, 7);
+  }
+
+  private spendKey(scope: BudgetScope, id: string): string {
+    return `budget:spend:${this.getMonthKey()}:${scope}:${id}`;
+  }
+}
+
+// Export singleton instance for easy use
+export const budgetService = BudgetService.getInstance();
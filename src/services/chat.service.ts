@@ -0,0 +1,330 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import config from '../config';
+import { Chat, ChatModel, ChatStatus } from '../models/mongodb/Chats';
+import { AnalysisScores, RiskLevel } from '../types/analysis';
+import { TIME } from '../utils/constants';
+import { logger } from '../utils/logger';
+import { Cursor, decodeCursor, encodeCursor } from '../utils/pagination';
+
+// Characters of the analyzed message shown in history lists
+const SNIPPET_LENGTH = 160;
+
+export interface ChatListQuery {
+  type: string;
+  limit: number;
+  cursor?: string;
+  status?: ChatStatus;
+  startDate?: Date;
+  endDate?: Date;
+  search?: string;
+  minSentiment?: number;
+  minVirality?: number;
+  minQuality?: number;
+  risk?: RiskLevel;
+}
+
+export interface ChatListItem {
+  id: string;
+  type: string;
+  status: ChatStatus;
+  snippet: string;
+  scores: AnalysisScores;
+  // Comparison the chat belongs to, and its position in it when it's a variant
+  groupId: string | null;
+  variantIndex: number | null;
+  createdAt: Date;
+}
+
+export interface ChatDetail {
+  id: string;
+  sender: string;
+  type: string;
+  status: ChatStatus;
+  failureReason: string | null;
+  message: string;
+  response: unknown;
+  scores: AnalysisScores;
+  modelName: string;
+  groupId: string | null;
+  variantIndex: number | null;
+  // The other chats of its comparison: the comparison first, then the variants in order
+  group: ChatListItem[];
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+  purgeAt: Date | null;
+}
+
+export interface ChatDeleteQuery {
+  type?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface ChatDeleteResult {
+  deleted: number;
+  purgeAt: Date;
+}
+
+export interface ChatPage {
+  items: ChatListItem[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Chat Service
+ * Reads a user's analysis history: cursor-paginated lists with a light projection, and
+ * single analyses with their structured result (or, for output stored unstructured, the
+ * response parsed from its JSON string).
+ * Deletes are soft: deleted analyses are hidden, can be restored for the retention window
+ * (CHAT_RETENTION_DAYS) and are then purged by a TTL index on purgeAt.
+ * A comparison is saved as a group of chats (the comparison and a chat per variant) linked
+ * by groupId, and each chat of the group is returned with the others.
+ */
+export class ChatService {
+  private static instance: ChatService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ChatService {
+    if (!ChatService.instance) {
+      ChatService.instance = new ChatService();
+    }
+    return ChatService.instance;
+  }
+
+  /**
+   * A page of a user's analyses, newest first
+   * Pass the previous page's nextCursor to continue; search matches words in the message
+   */
+  public async listChats(userId: string, query: ChatListQuery): Promise<ChatPage> {
+    const filter: FilterQuery<Chat> = { sender: userId, type: query.type, deletedAt: null };
+
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.startDate || query.endDate) {
+      filter.createdAt = this.dateRange(query.startDate, query.endDate);
+    }
+    if (query.search) {
+      filter.$text = { $search: query.search };
+    }
+    if (query.minSentiment !== undefined) {
+      filter['scores.sentiment'] = { $gte: query.minSentiment };
+    }
+    if (query.minVirality !== undefined) {
+      filter['scores.virality'] = { $gte: query.minVirality };
+    }
+    if (query.minQuality !== undefined) {
+      filter['scores.quality'] = { $gte: query.minQuality };
+    }
+    if (query.risk) {
+      filter['scores.risk'] = query.risk;
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      filter.$and = [this.after(cursor)];
+    }
+
+    // One extra document tells whether there is another page
+    const chats = await ChatModel.find(filter)
+      .select('id type status message scores groupId variantIndex createdAt')
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(query.limit + 1)
+      .lean();
+
+    const hasMore = chats.length > query.limit;
+    const page = chats.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map(chat => this.toListItem(chat)),
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ createdAt: last.createdAt, id: last._id.toString() })
+          : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * One analysis with its full message and parsed response
+   * Deleted analyses are only returned with includeDeleted (e.g. to restore them)
+   */
+  public async getChat(id: string, includeDeleted = false): Promise<ChatDetail | null> {
+    const filter: FilterQuery<Chat> = { id };
+    if (!includeDeleted) {
+      filter.deletedAt = null;
+    }
+
+    const chat = await ChatModel.findOne(filter).lean();
+    if (!chat) {
+      return null;
+    }
+
+    return {
+      id: chat.id,
+      sender: chat.sender,
+      type: chat.type,
+      status: chat.status,
+      failureReason: chat.failureReason ?? null,
+      message: chat.message,
+      response: chat.result ?? this.parseResponse(chat.id, chat.response),
+      scores: this.toScores(chat.scores),
+      modelName: chat.modelName,
+      groupId: chat.groupId ?? null,
+      variantIndex: chat.variantIndex ?? null,
+      group: chat.groupId ? await this.getGroup(chat.groupId, chat.id) : [],
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      deletedAt: chat.deletedAt ?? null,
+      purgeAt: chat.purgeAt ?? null,
+    };
+  }
+
+  /**
+   * Soft delete one analysis; returns when it will be purged, or null if it was already deleted
+   */
+  public async deleteChat(id: string): Promise<Date | null> {
+    const deletedAt = new Date();
+    const purgeAt = this.getPurgeDate(deletedAt);
+
+    const result = await ChatModel.updateOne(
+      { id, deletedAt: null },
+      { $set: { deletedAt, purgeAt } }
+    );
+
+    return result.modifiedCount > 0 ? purgeAt : null;
+  }
+
+  /**
+   * Soft delete a user's analyses of a type and/or created within a date range
+   */
+  public async deleteChats(userId: string, query: ChatDeleteQuery): Promise<ChatDeleteResult> {
+    const deletedAt = new Date();
+    const purgeAt = this.getPurgeDate(deletedAt);
+
+    const filter: FilterQuery<Chat> = { sender: userId, deletedAt: null };
+    if (query.type) {
+      filter.type = query.type;
+    }
+    if (query.startDate || query.endDate) {
+      filter.createdAt = this.dateRange(query.startDate, query.endDate);
+    }
+
+    const result = await ChatModel.updateMany(filter, { $set: { deletedAt, purgeAt } });
+
+    return { deleted: result.modifiedCount, purgeAt };
+  }
+
+  /**
+   * Undo a soft delete before the analysis is purged
+   */
+  public async restoreChat(id: string): Promise<boolean> {
+    const result = await ChatModel.updateOne(
+      { id, deletedAt: { $ne: null } },
+      { $set: { deletedAt: null, purgeAt: null } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Chats of a comparison other than the one being viewed, skipping deleted ones
+   */
+  private async getGroup(groupId: string, excludeId: string): Promise<ChatListItem[]> {
+    const chats = await ChatModel.find({ groupId, id: { $ne: excludeId }, deletedAt: null })
+      .select('id type status message scores groupId variantIndex createdAt')
+      .sort({ variantIndex: 1 })
+      .lean();
+
+    return chats.map(chat => this.toListItem(chat));
+  }
+
+  private toListItem(
+    chat: Pick<
+      Chat,
+      'id' | 'type' | 'status' | 'message' | 'scores' | 'groupId' | 'variantIndex' | 'createdAt'
+    >
+  ): ChatListItem {
+    return {
+      id: chat.id,
+      type: chat.type,
+      status: chat.status,
+      snippet: this.toSnippet(chat.message),
+      scores: this.toScores(chat.scores),
+      groupId: chat.groupId ?? null,
+      variantIndex: chat.variantIndex ?? null,
+      createdAt: chat.createdAt,
+    };
+  }
+
+  /**
+   * Filter for documents after a cursor in createdAt, _id descending order
+   */
+  private after(cursor: Cursor): FilterQuery<Chat> {
+    if (!mongoose.isValidObjectId(cursor.id)) {
+      return { createdAt: { $lt: cursor.createdAt } };
+    }
+
+    const id = new mongoose.Types.ObjectId(cursor.id);
+    return {
+      $or: [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: id } },
+      ],
+    };
+  }
+
+  /**
+   * Stored responses are the model's JSON text; null when empty or not valid JSON
+   */
+  private parseResponse(id: string, response?: string): unknown {
+    if (!response) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(response);
+    } catch {
+      logger.warn('Stored analysis response is not valid JSON', { chatId: id });
+      return null;
+    }
+  }
+
+  /**
+   * Stored scores, with null for any missing (e.g. analyses not yet migrated)
+   */
+  private toScores(scores?: Partial<AnalysisScores>): AnalysisScores {
+    return {
+      sentiment: scores?.sentiment ?? null,
+      virality: scores?.virality ?? null,
+      quality: scores?.quality ?? null,
+      risk: scores?.risk ?? null,
+    };
+  }
+
+  private dateRange(startDate?: Date, endDate?: Date): Record<string, Date> {
+    return {
+      ...(startDate && { $gte: startDate }),
+      ...(endDate && { $lte: endDate }),
+    };
+  }
+
+  private getPurgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + config.chats.retentionDays * TIME.DAY);
+  }
+
+  private toSnippet(message: string): string {
+    return message.length > SNIPPET_LENGTH
+      ? `${message.slice(0, SNIPPET_LENGTH).trimEnd()}…`
+      : message;
+  }
+}
+
+// Export singleton instance for easy use
+export const chatService = ChatService.getInstance();
@@ -1,27 +1,61 @@
 import config from '@/config';
-import { contentAnalysisMock, dashboardMock, videoAnalysisMock } from '@/constants/mocks';
+import {
+  comparisonMock,
+  contentAnalysisMock,
+  dashboardMock,
+  videoAnalysisMock,
+} from '@/constants/mocks';
 import { PromptType } from '@/constants/prompts';
 import { ChatModel, ChatStatus } from '@/models/mongodb/Chats';
 import { auditLog } from '@/services/auditLog.service';
 import { cacheService } from '@/services/core/cache/cache.service';
+import { budgetService } from '@/services/budget.service';
+import { usageService } from '@/services/usage.service';
+import { webhookService } from '@/services/webhook.service';
+import {
+  AnalysisData,
+  AnalysisScores,
+  ComparisonAnalysis,
+  ComparisonResult,
+} from '@/types/analysis';
+import {
+  AnalysisValidation,
+  extractJson,
+  getAnalysisScores,
+  isAnalysisType,
+  isOutputType,
+  JsonSectionScanner,
+  toComparisonResult,
+  validateOutput,
+} from '@/utils/analysis';
+import { CircuitBreaker, CircuitBreakerStatus } from '@/utils/circuitBreaker';
+import { AnalysisOutputError, ServiceError } from '@/utils/errors';
 import { generateCacheKey, generateUUID } from '@/utils/idGenerator';
-import Anthropic from '@anthropic-ai/sdk';
+import { withRetry } from '@/utils/retry';
+import Anthropic, { APIConnectionError, APIError, APIUserAbortError } from '@anthropic-ai/sdk';
 import { Request } from 'express';
 import {
   AnalysisContext,
   AnalysisOptions,
   AnalysisResult,
   AnthropicConfig,
+  ComparisonOutcome,
+  GeneratedResponse,
   RequestStatus,
+  TokenUsage,
 } from './types';
 import logger from '../../../../utils/logger';
 
 export { RequestStatus } from './types';
 
+// Chunks mock output is streamed in
+const MOCK_STREAM_CHUNKS = 30;
+
 export class AnthropicService {
   private anthropic: any;
   private config: AnthropicConfig;
   private cacheService: typeof cacheService;
+  private breaker: CircuitBreaker;
   private static instance: AnthropicService;
 
   constructor() {
@@ -35,9 +69,15 @@ export class AnthropicService {
 
     this.anthropic = new Anthropic({
       apiKey: this.config.apiKey,
+      // Retries are done here, with backoff and the circuit breaker
+      maxRetries: 0,
     });
 
     this.cacheService = cacheService;
+    this.breaker = new CircuitBreaker('Anthropic', {
+      ...config.ai.anthropic.circuitBreaker,
+      isFailure: error => this.isRetryableError(error),
+    });
   }
 
   public static getInstance(): AnthropicService {
@@ -53,52 +93,221 @@ export class AnthropicService {
     options: {
       useTooling?: boolean;
       contentType?: PromptType;
+      model?: string;
     } = {}
   ): Promise<string> {
+    const response = await this.generateResponseWithUsage(prompt, system, options);
+    return response.text;
+  }
+
+  /**
+   * Generate a response and report the model, tokens and estimated cost it used
+   * With onText the response is streamed, and onText gets the text so far as it arrives
+   */
+  async generateResponseWithUsage(
+    prompt: string,
+    system: string,
+    options: {
+      useTooling?: boolean;
+      contentType?: PromptType;
+      model?: string;
+      onText?: (text: string) => void;
+    } = {}
+  ): Promise<GeneratedResponse> {
     const useTooling = options?.useTooling || false;
     const tools = useTooling ? this.getTooling() : {};
+    const model = options.model || this.config.model;
     console.log(`used mock: ${config.ai.anthropic.mock}`);
     if (config.ai.anthropic.mock) {
-      return this.getMockResponse(options.contentType || PromptType.CONTENT);
+      const mockType = options.contentType || PromptType.CONTENT;
+      return {
+        text: options.onText
+          ? await this.streamMockResponse(mockType, options.onText)
+          : await this.getMockResponse(mockType),
+        model,
+        usage: { inputTokens: 0, outputTokens: 0, webSearchRequests: 0 },
+        costUsd: 0,
+        stopReason: 'end_turn',
+      };
     }
 
-    const response = await this.anthropic.beta.messages.create({
-      model: this.config.model,
-      max_tokens: this.config.maxTokens,
-      temperature: this.config.temperature,
-      system,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: prompt,
-            },
-          ],
-        },
-      ],
-      ...{ ...tools },
-    });
+    const response = await this.createMessage(
+      options.contentType || PromptType.CONTENT,
+      {
+        model,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        system,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: prompt,
+              },
+            ],
+          },
+        ],
+        ...{ ...tools },
+      },
+      options.onText
+    );
     await this.logUsage({} as any, RequestStatus.ANTHROPIC_RESPONSE, response, response);
-    const textContent = response?.content?.find((item: any) => item.type === 'text')?.text;
-    return textContent || '';
+    // With web search the answer is split into text blocks around the tool calls
+    const textContent = (response?.content || [])
+      .filter((item: any) => item.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+    const usage = this.getTokenUsage(response?.usage);
+    const responseModel = response?.model || model;
+    return {
+      text: textContent,
+      model: responseModel,
+      usage,
+      costUsd: budgetService.estimateCost(responseModel, usage),
+      stopReason: response?.stop_reason || null,
+    };
+  }
+
+  /**
+   * Send a request to the API within the prompt type's timeout, retrying rate-limited,
+   * overloaded and failed calls with backoff
+   * @throws ServiceError without calling the API while the circuit breaker is open
+   */
+  private async createMessage(
+    contentType: PromptType,
+    params: Record<string, unknown>,
+    onText?: (text: string) => void
+  ): Promise<any> {
+    const { timeouts, retry } = config.ai.anthropic;
+    const timeout = timeouts[contentType];
+
+    return this.breaker.execute(() =>
+      withRetry(
+        () =>
+          onText
+            ? this.streamMessage(params, timeout, onText)
+            : this.anthropic.beta.messages.create(params, { timeout }),
+        {
+          ...retry,
+          isRetryable: error => this.isRetryableError(error),
+          getRetryAfterMs: error => this.getRetryAfterMs(error),
+          label: `Anthropic ${contentType} request`,
+        }
+      )
+    );
+  }
+
+  /**
+   * Stream a response, passing the text of the current text block as it grows
+   * A retried call starts again from empty text
+   */
+  private async streamMessage(
+    params: Record<string, unknown>,
+    timeout: number,
+    onText: (text: string) => void
+  ): Promise<any> {
+    const stream = this.anthropic.beta.messages.stream(params, { timeout });
+    stream.on('text', (_delta: string, snapshot: string) => onText(snapshot));
+    return stream.finalMessage();
+  }
+
+  /**
+   * Whether an API error is transient: timeouts, connection failures, rate limits (429),
+   * overload (529) and other server errors
+   */
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof APIUserAbortError) {
+      return false;
+    }
+    if (error instanceof APIConnectionError) {
+      return true;
+    }
+    if (error instanceof APIError && error.status) {
+      return error.status === 408 || error.status === 429 || error.status >= 500;
+    }
+    return false;
+  }
+
+  /**
+   * Delay asked for in a Retry-After header, in ms
+   */
+  private getRetryAfterMs(error: unknown): number | null {
+    const retryAfter = error instanceof APIError ? error.headers?.get('retry-after') : null;
+    const seconds = Number(retryAfter);
+    return retryAfter && Number.isFinite(seconds) ? seconds * 1000 : null;
+  }
+
+  /**
+   * Circuit breaker state, for health checks
+   */
+  public getHealth(): {
+    status: 'healthy' | 'warning' | 'error';
+    circuitBreaker: CircuitBreakerStatus;
+  } {
+    const circuitBreaker = this.breaker.getStatus();
+    const status =
+      circuitBreaker.state === 'open'
+        ? 'error'
+        : circuitBreaker.state === 'half_open'
+          ? 'warning'
+          : 'healthy';
+
+    return { status, circuitBreaker };
+  }
+
+  /**
+   * Read token counts from an API response's usage block
+   */
+  private getTokenUsage(usage: any): TokenUsage {
+    return {
+      inputTokens:
+        (usage?.input_tokens || 0) +
+        (usage?.cache_creation_input_tokens || 0) +
+        (usage?.cache_read_input_tokens || 0),
+      outputTokens: usage?.output_tokens || 0,
+      webSearchRequests: usage?.server_tool_use?.web_search_requests || 0,
+    };
   }
 
   async getMockResponse(type: PromptType): Promise<string> {
+    return await new Promise(resolve => setTimeout(() => resolve(this.getMockText(type)), 3000));
+  }
+
+  /**
+   * Stream mock output in chunks over the same 3 seconds as getMockResponse
+   */
+  private async streamMockResponse(
+    type: PromptType,
+    onText: (text: string) => void
+  ): Promise<string> {
+    const text = this.getMockText(type);
+    const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await new Promise(resolve => setTimeout(resolve, 3000 / MOCK_STREAM_CHUNKS));
+      onText(text.slice(0, end));
+    }
+
+    return text;
+  }
+
+  private getMockText(type: PromptType): string {
     const mockToPromptMap: Record<PromptType, string> = {
       [PromptType.CONTENT]: JSON.stringify(contentAnalysisMock),
       [PromptType.VIDEO]: JSON.stringify(videoAnalysisMock),
       [PromptType.DASHBOARD]: JSON.stringify(dashboardMock),
+      [PromptType.COMPARISON]: JSON.stringify(comparisonMock),
     };
-    return await new Promise(resolve => setTimeout(() => resolve(mockToPromptMap[type]), 3000));
+    return mockToPromptMap[type];
   }
 
   /**
    * Analyze content with optional caching
    */
   async analyzeContent(
-    req: Request,
+    req: Request | undefined,
     content: string,
     contentType: PromptType,
     options: AnalysisOptions = {}
@@ -108,17 +317,24 @@ export class AnthropicService {
       userId = 'anonymous',
       cacheConfig = {},
       useTooling = false,
+      plan,
+      model,
+      onProgress,
     } = options;
 
-    const analysisId = generateUUID();
+    const analysisId = options.analysisId || generateUUID();
     const context: AnalysisContext = {
       request: req,
       userId,
+      plan,
       contentType,
       analysisId,
+      pendingChat: Boolean(options.analysisId),
       startTime: Date.now(),
     };
 
+    onProgress?.({ event: 'started', analysisId });
+
     // Generate cache key for this content
     const cacheKey = generateCacheKey(content, contentType) + contentType;
 
@@ -126,25 +342,85 @@ export class AnthropicService {
     if (cacheFirst && cacheConfig.enabled !== false) {
       const cachedResult = this.getCachedResult(cacheKey);
       if (cachedResult) {
+        onProgress?.({ event: 'cache-hit', analysisId });
         await this.logUsage(context, RequestStatus.ANTHROPIC_RESULT, content, {
           response: cachedResult,
           cached: true,
           analysisId,
         });
-        return cachedResult;
+        await this.recordUsage(context, { cacheHit: true, status: 'success' });
+
+        // The cached result may come from another user's analysis, so it gets this
+        // request's own ID and history entry
+        const chatData = {
+          id: analysisId,
+          message: content,
+          response: cachedResult.result ? '' : cachedResult.response,
+          result: cachedResult.result ?? null,
+          scores: cachedResult.scores,
+          sender: userId,
+          type: contentType,
+          status: ChatStatus.COMPLETED,
+          modelName: cachedResult.modelName,
+        };
+        await this.saveChat(context, chatData);
+
+        this.emitAnalysisEvent(context, 'analysis.completed', {
+          analysisId,
+          cached: true,
+          scores: cachedResult.scores ?? null,
+        });
+        return {
+          ...chatData,
+          response: cachedResult.response,
+          data: cachedResult.data,
+          analysisId,
+        };
       }
     }
 
     // Log the request
     await this.logUsage(context, RequestStatus.ANTHROPIC_REQUEST, content, null);
 
+    let generated: GeneratedResponse | null = null;
+
     try {
       const prompt = await this.getPrompt(content, contentType);
 
-      const response = await this.generateResponse(prompt.content, prompt.system, {
+      // Report each top-level section of a streamed answer as soon as it's complete
+      const scanner = onProgress ? new JsonSectionScanner() : null;
+      const onText = scanner
+        ? (text: string) =>
+            scanner
+              .push(text)
+              .forEach(section => onProgress?.({ event: 'partial', analysisId, ...section }))
+        : undefined;
+
+      generated = await this.generateResponseWithUsage(prompt.content, prompt.system, {
         useTooling,
         contentType,
+        model,
+        onText,
       });
+      let output = this.parseOutput(contentType, generated);
+
+      // Ask the model once to fix an unusable answer, telling it what was wrong
+      if (!output.success) {
+        logger.warn('Analysis output is unusable, asking the model to repair it', {
+          analysisId,
+          contentType,
+          errors: output.errors.slice(0, 10),
+        });
+        const repaired = await this.generateResponseWithUsage(
+          this.getRepairPrompt(prompt.content, generated, output.errors),
+          prompt.system,
+          { contentType, model }
+        );
+        generated = this.combineResponses(generated, repaired);
+        output = this.parseOutput(contentType, repaired);
+      }
+
+      const response = generated.text;
 
       await this.logUsage(context, RequestStatus.ANTHROPIC_RESULT, content, {
         response,
@@ -152,23 +428,33 @@ export class AnthropicService {
         analysisId,
         cached: false,
       });
-      const parsedResponse = JSON.parse(response);
+
+      if (!output.success) {
+        throw new AnalysisOutputError(output.errors);
+      }
+
+      const parsedResponse = output.data;
+      const structured = this.toStructuredResult(contentType, parsedResponse);
 
       const chatData = {
         id: analysisId,
         message: content,
-        response: response,
+        // Raw output is only kept when there's no validated result to store instead
+        response: structured ? '' : response,
+        result: structured?.data ?? null,
+        scores: structured?.scores,
         sender: userId,
         type: contentType,
         status: ChatStatus.COMPLETED,
-        modelName: this.config.model,
+        modelName: generated.model,
       };
 
-      await ChatModel.create(chatData);
+      await this.saveChat(context, chatData);
 
       const result: AnalysisResult = {
         ...chatData,
-        data: parsedResponse,
+        response,
+        data: structured?.data ?? (parsedResponse as Record<string, unknown>),
         analysisId,
       };
 
@@ -186,6 +472,20 @@ export class AnthropicService {
         cached: false,
       });
 
+      await this.recordUsage(context, {
+        cacheHit: false,
+        status: 'success',
+        model: generated.model,
+        usage: generated.usage,
+        costUsd: generated.costUsd,
+      });
+
+      this.emitAnalysisEvent(context, 'analysis.completed', {
+        analysisId,
+        cached: false,
+        scores: structured?.scores ?? null,
+      });
+
       return result;
     } catch (error: any) {
       // Log error
@@ -193,11 +493,311 @@ export class AnthropicService {
         error: error,
         analysisId,
       });
+      // Tokens are spent even when the response can't be used
+      await this.recordUsage(context, {
+        cacheHit: false,
+        status: 'error',
+        model: generated?.model,
+        usage: generated?.usage,
+        costUsd: generated?.costUsd,
+      });
+      await this.saveFailedChat(context, content, generated, error);
+      this.emitAnalysisEvent(context, 'analysis.failed', {
+        analysisId,
+        reason: error instanceof Error ? error.message : String(error),
+      });
       logger.error('Anthropic analysis error:', error);
+      if (error instanceof AnalysisOutputError || error instanceof ServiceError) {
+        throw error;
+      }
       throw new Error('Failed to analyze content');
     }
   }
 
+  /**
+   * Compare variants of one post in a single call: the model scores each variant and writes
+   * a merged rewrite, and the winners and deltas are worked out from its scores
+   * Saved as a group of chats sharing the comparison's ID as groupId: the comparison with its
+   * result, and a chat per variant with its scores
+   */
+  async compareVariants(
+    req: Request | undefined,
+    variants: string[],
+    options: AnalysisOptions = {}
+  ): Promise<ComparisonOutcome> {
+    const { userId = 'anonymous', plan, model } = options;
+    const comparisonId = generateUUID();
+    const context: AnalysisContext = {
+      request: req,
+      userId,
+      plan,
+      contentType: PromptType.COMPARISON,
+      analysisId: comparisonId,
+      startTime: Date.now(),
+    };
+    const content = this.formatVariants(variants);
+
+    await this.logUsage(context, RequestStatus.ANTHROPIC_REQUEST, content, null);
+
+    let generated: GeneratedResponse | null = null;
+
+    try {
+      const prompt = await this.getPrompt(content, PromptType.COMPARISON);
+      const generateOptions = { contentType: PromptType.COMPARISON, model };
+
+      generated = await this.generateResponseWithUsage(
+        prompt.content,
+        prompt.system,
+        generateOptions
+      );
+      let output = this.parseComparison(generated, variants.length);
+
+      // Ask the model once to fix an unusable answer, as for analyses
+      if (!output.success) {
+        logger.warn('Comparison output is unusable, asking the model to repair it', {
+          comparisonId,
+          errors: output.errors.slice(0, 10),
+        });
+        const repaired = await this.generateResponseWithUsage(
+          this.getRepairPrompt(prompt.content, generated, output.errors),
+          prompt.system,
+          generateOptions
+        );
+        generated = this.combineResponses(generated, repaired);
+        output = this.parseComparison(repaired, variants.length);
+      }
+
+      await this.logUsage(context, RequestStatus.ANTHROPIC_RESULT, content, {
+        response: generated.text,
+        prompt,
+        analysisId: comparisonId,
+        cached: false,
+      });
+
+      if (!output.success) {
+        throw new AnalysisOutputError(output.errors);
+      }
+
+      const result = output.data;
+      const variantIds = variants.map(() => generateUUID());
+      const modelName = generated.model;
+
+      await ChatModel.create([
+        {
+          id: comparisonId,
+          message: content,
+          result,
+          sender: userId,
+          type: PromptType.COMPARISON,
+          status: ChatStatus.COMPLETED,
+          modelName,
+          groupId: comparisonId,
+        },
+        ...variants.map((variant, index) => ({
+          id: variantIds[index],
+          message: variant,
+          scores: { ...result.variants[index].scores, risk: null },
+          sender: userId,
+          type: options.contentType || PromptType.CONTENT,
+          status: ChatStatus.COMPLETED,
+          modelName,
+          groupId: comparisonId,
+          variantIndex: index + 1,
+        })),
+      ]);
+
+      await this.logUsage(context, RequestStatus.ANTHROPIC_SUCCESS, content, {
+        response: result,
+        prompt,
+        analysisId: comparisonId,
+        cached: false,
+      });
+
+      await this.recordUsage(context, {
+        cacheHit: false,
+        status: 'success',
+        model: generated.model,
+        usage: generated.usage,
+        costUsd: generated.costUsd,
+      });
+
+      this.emitAnalysisEvent(context, 'analysis.completed', {
+        analysisId: comparisonId,
+        cached: false,
+        winners: result.winners,
+      });
+
+      return { comparisonId, variantIds, result, modelName };
+    } catch (error: any) {
+      await this.logUsage(context, RequestStatus.ANTHROPIC_ERROR, content, {
+        error: error,
+        analysisId: comparisonId,
+      });
+      // Tokens are spent even when the response can't be used
+      await this.recordUsage(context, {
+        cacheHit: false,
+        status: 'error',
+        model: generated?.model,
+        usage: generated?.usage,
+        costUsd: generated?.costUsd,
+      });
+      await this.saveFailedChat(context, content, generated, error);
+      this.emitAnalysisEvent(context, 'analysis.failed', {
+        analysisId: comparisonId,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      logger.error('Anthropic comparison error:', error);
+      if (error instanceof AnalysisOutputError || error instanceof ServiceError) {
+        throw error;
+      }
+      throw new Error('Failed to compare content');
+    }
+  }
+
+  /**
+   * Variants numbered from 1, as the comparison prompt refers to them
+   */
+  private formatVariants(variants: string[]): string {
+    return variants
+      .map((variant, index) => `Variant ${index + 1}:\n${variant}`)
+      .join('\n\n---\n\n');
+  }
+
+  /**
+   * Validate comparison output and work out its winners and deltas
+   */
+  private parseComparison(
+    generated: GeneratedResponse,
+    count: number
+  ): AnalysisValidation<ComparisonResult> {
+    const output = this.parseOutput(PromptType.COMPARISON, generated);
+    return output.success ? toComparisonResult(output.data as ComparisonAnalysis, count) : output;
+  }
+
+  /**
+   * Parse and validate model output against its prompt type's schema
+   */
+  private parseOutput(
+    contentType: PromptType,
+    generated: GeneratedResponse
+  ): { success: true; data: unknown } | { success: false; errors: string[] } {
+    const extracted = extractJson(generated.text);
+    if (!extracted.success) {
+      const truncated = generated.stopReason === 'max_tokens';
+      return {
+        success: false,
+        errors: [truncated ? 'Response was cut off at the max_tokens limit' : extracted.error],
+      };
+    }
+
+    if (!isOutputType(contentType)) {
+      return { success: true, data: extracted.data };
+    }
+
+    const validation = validateOutput(contentType, extracted.data);
+    return validation.success
+      ? { success: true, data: validation.data }
+      : { success: false, errors: validation.errors };
+  }
+
+  /**
+   * Follow-up prompt asking the model to fix an answer that couldn't be used
+   * A cut-off answer isn't sent back, as repeating it would be cut off again
+   */
+  private getRepairPrompt(prompt: string, generated: GeneratedResponse, errors: string[]): string {
+    const truncated = generated.stopReason === 'max_tokens';
+    const problems = errors
+      .slice(0, 20)
+      .map(error => `- ${error}`)
+      .join('\n');
+
+    return [
+      prompt,
+      'Your previous response could not be used:',
+      problems,
+      truncated ? 'Keep the response shorter so it is not cut off.' : '',
+      truncated ? '' : `Previous response:\n${generated.text}`,
+      'Respond again with only the corrected JSON object, with no code fences or other text.',
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  /**
+   * A response and its repair, with the tokens and cost of both calls
+   */
+  private combineResponses(first: GeneratedResponse, second: GeneratedResponse): GeneratedResponse {
+    return {
+      ...second,
+      usage: {
+        inputTokens: first.usage.inputTokens + second.usage.inputTokens,
+        outputTokens: first.usage.outputTokens + second.usage.outputTokens,
+        webSearchRequests: first.usage.webSearchRequests + second.usage.webSearchRequests,
+      },
+      costUsd: first.costUsd + second.costUsd,
+    };
+  }
+
+  /**
+   * Save an analysis to the history, completing its pending chat if it has one
+   */
+  private async saveChat(context: AnalysisContext, data: Record<string, unknown>): Promise<void> {
+    const pending = context.pendingChat
+      ? await ChatModel.findOne({ id: context.analysisId, status: ChatStatus.PENDING })
+      : null;
+
+    if (pending) {
+      pending.set(data);
+      await pending.save();
+      return;
+    }
+
+    await ChatModel.create(data);
+  }
+
+  /**
+   * Tell the user's webhooks an analysis finished; dashboard refreshes have their own event
+   */
+  private emitAnalysisEvent(
+    context: AnalysisContext,
+    event: 'analysis.completed' | 'analysis.failed',
+    data: Record<string, unknown>
+  ): void {
+    if (context.contentType === PromptType.DASHBOARD) {
+      return;
+    }
+
+    void webhookService.emit(event, context.userId, { ...data, type: context.contentType });
+  }
+
+  /**
+   * Keep a failed analysis in the history with the reason it failed
+   */
+  private async saveFailedChat(
+    context: AnalysisContext,
+    content: string,
+    generated: GeneratedResponse | null,
+    error: unknown
+  ): Promise<void> {
+    try {
+      await this.saveChat(context, {
+        id: context.analysisId,
+        message: content,
+        response: generated?.text || '',
+        sender: context.userId,
+        type: context.contentType,
+        status: ChatStatus.FAILED,
+        failureReason: (error instanceof Error ? error.message : String(error)).slice(0, 2000),
+        modelName: generated?.model || this.config.model,
+      });
+    } catch (saveError) {
+      logger.error('Failed to save failed analysis', {
+        analysisId: context.analysisId,
+        error: saveError instanceof Error ? saveError.message : saveError,
+      });
+    }
+  }
+
   /**
    * Get cached analysis result
    */
@@ -255,15 +855,68 @@ export class AnthropicService {
     content: string,
     response: any
   ): Promise<void> {
-    await auditLog.logFromRequest(context.request, event, event, {
+    // Background jobs have no request, so their entries name the user instead
+    await auditLog.logFromRequest(
+      context.request,
+      event,
       event,
-      content,
-      response,
+      {
+        event,
+        content,
+        response,
+        userId: context.userId,
+        contentType: context.contentType,
+        analysisId: context.analysisId,
+        duration: Date.now() - context.startTime,
+      },
+      context.request ? undefined : context.userId
+    );
+  }
+
+  /**
+   * Validated content or video analysis with its headline scores, stored as the chat's result
+   * Null for dashboard trends, which are kept as raw output
+   */
+  private toStructuredResult(
+    contentType: PromptType,
+    data: unknown
+  ): { data: AnalysisData; scores: AnalysisScores } | null {
+    if (!isAnalysisType(contentType)) {
+      return null;
+    }
+
+    return {
+      data: data as AnalysisData,
+      scores: getAnalysisScores(contentType, data as AnalysisData),
+    };
+  }
+
+  /**
+   * Meter an analysis for usage reporting and count its cost against budgets
+   */
+  private async recordUsage(
+    context: AnalysisContext,
+    outcome: {
+      cacheHit: boolean;
+      status: 'success' | 'error';
+      model?: string;
+      usage?: TokenUsage;
+      costUsd?: number;
+    }
+  ): Promise<void> {
+    await usageService.record({
       userId: context.userId,
-      contentType: context.contentType,
+      plan: context.plan,
       analysisId: context.analysisId,
-      duration: Date.now() - context.startTime,
+      contentType: context.contentType,
+      modelName: outcome.model || this.config.model,
+      ...outcome.usage,
+      costUsd: outcome.costUsd,
+      cacheHit: outcome.cacheHit,
+      latencyMs: Date.now() - context.startTime,
+      status: outcome.status,
     });
+    await budgetService.recordSpend(context.userId, context.plan, outcome.costUsd || 0);
   }
 
   getTooling() {
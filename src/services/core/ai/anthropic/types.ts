@@ -1,3 +1,4 @@
+import { AnalysisData, AnalysisScores, ComparisonResult } from '@/types/analysis';
 import { Request } from 'express';
 
 /**
@@ -11,6 +12,14 @@ export interface AnalysisOptions {
   userId?: string;
   /** Content type for analysis (post, video, etc.) */
   contentType?: string;
+  /** User's plan, recorded with usage for plan budgets */
+  plan?: string;
+  /** Model to use instead of the configured one (e.g. when a budget is exhausted) */
+  model?: string;
+  /** ID of a pending chat (e.g. an async job's) to complete instead of saving a new one */
+  analysisId?: string;
+  /** Stream the model's answer and report progress (see AnalysisProgressEvent) */
+  onProgress?: (event: AnalysisProgressEvent) => void;
   /** Cache configuration */
   cacheConfig?: {
     /** Cache TTL in seconds */
@@ -20,16 +29,52 @@ export interface AnalysisOptions {
   };
 }
 
+/**
+ * Progress of a streamed analysis
+ * Partial sections are top-level keys of the model's JSON as each completes; they aren't
+ * validated yet, so the final result is what counts
+ */
+export type AnalysisProgressEvent =
+  | { event: 'started'; analysisId: string }
+  | { event: 'cache-hit'; analysisId: string }
+  | { event: 'partial'; analysisId: string; section: string; data: unknown };
+
 /**
  * Result of content analysis
  */
 export interface AnalysisResult {
   /** Unique analysis ID */
   analysisId: string;
+  /** Parsed model output, validated against its schema for content and video analyses */
+  data?: AnalysisData | Record<string, unknown>;
+  /** Headline scores, when the output matched its schema */
+  scores?: AnalysisScores;
   /** Analysis data returned from AI service */
   [key: string]: any;
 }
 
+/**
+ * Tokens used by one model call
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+}
+
+/**
+ * Text of a model response with the model, tokens and cost it used
+ */
+export interface GeneratedResponse {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+  /** Estimated from the model price table */
+  costUsd: number;
+  /** Why the model stopped, e.g. end_turn or max_tokens (output cut off) */
+  stopReason: string | null;
+}
+
 /**
  * Cache key generation options
  */
@@ -64,10 +109,25 @@ export interface AnthropicConfig {
 /**
  * Analysis context for logging and tracking
  */
+/**
+ * A comparison of variants, saved as a group of chats sharing the comparison's ID as groupId
+ */
+export interface ComparisonOutcome {
+  /** ID of the comparison chat */
+  comparisonId: string;
+  /** Chat ID of each variant, in the order they were sent */
+  variantIds: string[];
+  result: ComparisonResult;
+  modelName: string;
+}
+
 export interface AnalysisContext {
-  request: Request;
+  request?: Request;
   userId: string;
+  plan?: string;
   contentType: string;
   analysisId: string;
+  /** The analysis completes a pending chat rather than saving a new one */
+  pendingChat?: boolean;
   startTime: number;
 }
@@ -0,0 +1,112 @@
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+import { MemoryCounterStore } from './stores/memory.store';
+import { MongoCounterStore } from './stores/mongo.store';
+import {
+  CounterEvent,
+  CounterIncrementResult,
+  CounterState,
+  CounterStore,
+  CounterWindow,
+} from './types';
+
+/**
+ * Counter Service
+ * Usage counters behind a pluggable store, selected with USAGE_COUNTER_STORE
+ */
+class CounterService {
+  private static instance: CounterService;
+  private stores: Map<string, CounterStore>;
+  private activeStore: CounterStore;
+
+  private constructor() {
+    this.stores = new Map();
+    this.registerStore(new MongoCounterStore());
+    this.registerStore(new MemoryCounterStore());
+
+    const configured = this.stores.get(config.usage.counterStore);
+    if (!configured) {
+      logger.warn(
+        `Unknown USAGE_COUNTER_STORE "${config.usage.counterStore}", falling back to mongo store`
+      );
+    }
+    this.activeStore = configured || this.stores.get('mongo')!;
+
+    logger.info(`Counter service initialized with ${this.activeStore.name} store`);
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): CounterService {
+    if (!CounterService.instance) {
+      CounterService.instance = new CounterService();
+    }
+    return CounterService.instance;
+  }
+
+  /**
+   * Make a store available by name
+   */
+  public registerStore(store: CounterStore): void {
+    this.stores.set(store.name, store);
+  }
+
+  /**
+   * Switch the store used for counting
+   */
+  public useStore(name: string): void {
+    const store = this.stores.get(name);
+    if (!store) {
+      throw new Error(`Counter store "${name}" is not registered`);
+    }
+    this.activeStore = store;
+  }
+
+  public getStoreName(): string {
+    return this.activeStore.name;
+  }
+
+  /**
+   * Atomically add one to a counter and return the new state
+   */
+  public increment(key: string, window: CounterWindow): Promise<CounterState> {
+    return this.activeStore.increment(key, window);
+  }
+
+  /**
+   * Atomically add one to a counter unless it has reached the limit
+   */
+  public tryIncrement(
+    key: string,
+    window: CounterWindow,
+    limit: number
+  ): Promise<CounterIncrementResult> {
+    return this.activeStore.tryIncrement(key, window, limit);
+  }
+
+  /**
+   * Take back an increment made by tryIncrement
+   */
+  public release(key: string, window: CounterWindow, event: CounterEvent): Promise<void> {
+    return this.activeStore.release(key, window, event);
+  }
+
+  /**
+   * Current count within the window
+   */
+  public get(key: string, window: CounterWindow): Promise<CounterState> {
+    return this.activeStore.get(key, window);
+  }
+
+  /**
+   * Clear every window of a counter
+   */
+  public reset(key: string): Promise<void> {
+    return this.activeStore.reset(key);
+  }
+}
+
+// Export singleton instance for easy use
+export const counterService = CounterService.getInstance();
+export default counterService;
@@ -0,0 +1,13 @@
+// Counter Service Exports
+export { counterService } from './counter.service';
+export { MemoryCounterStore } from './stores/memory.store';
+export { MongoCounterStore } from './stores/mongo.store';
+export { getFixedWindowEnd, getFixedWindowStart } from './window';
+export type {
+  CounterEvent,
+  CounterIncrementResult,
+  CounterState,
+  CounterStore,
+  CounterWindow,
+  CounterWindowType,
+} from './types';
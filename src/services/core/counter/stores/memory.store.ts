@@ -0,0 +1,163 @@
+import { generateUUID } from '@/utils/idGenerator';
+import {
+  CounterEvent,
+  CounterIncrementResult,
+  CounterState,
+  CounterStore,
+  CounterWindow,
+} from '../types';
+import { getFixedWindowEnd, getFixedWindowStart } from '../window';
+
+interface MemoryCounter {
+  key: string;
+  count: number;
+  events: number[];
+  eventIds: string[];
+  expiresAt: number;
+}
+
+/**
+ * In-memory counter store
+ * Counts are per process and lost on restart - for local development and tests
+ */
+export class MemoryCounterStore implements CounterStore {
+  public name = 'memory';
+  private counters = new Map<string, MemoryCounter>();
+
+  async increment(key: string, window: CounterWindow): Promise<CounterState> {
+    return this.record(key, window, Date.now(), generateUUID());
+  }
+
+  // Reads and records without awaiting in between, so concurrent calls can't both pass the check
+  async tryIncrement(
+    key: string,
+    window: CounterWindow,
+    limit: number
+  ): Promise<CounterIncrementResult> {
+    const now = Date.now();
+    const current = this.read(key, window, now);
+    if (current.count >= limit) {
+      return { accepted: false, event: null, state: current };
+    }
+
+    const event: CounterEvent = { id: generateUUID(), at: new Date(now) };
+    const state = this.record(key, window, now, event.id);
+
+    return { accepted: true, event, state };
+  }
+
+  async release(key: string, window: CounterWindow, event: CounterEvent): Promise<void> {
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(event.at.getTime(), window);
+      const counter = this.counters.get(`${key}:${windowStart}`);
+      if (counter && counter.count > 0) {
+        counter.count--;
+      }
+      return;
+    }
+
+    const counter = this.counters.get(key);
+    const index = counter ? counter.eventIds.indexOf(event.id) : -1;
+    if (counter && index !== -1) {
+      counter.events.splice(index, 1);
+      counter.eventIds.splice(index, 1);
+      counter.count = counter.events.length;
+    }
+  }
+
+  async get(key: string, window: CounterWindow): Promise<CounterState> {
+    return this.read(key, window, Date.now());
+  }
+
+  async reset(key: string): Promise<void> {
+    for (const [bucket, counter] of this.counters) {
+      if (counter.key === key) {
+        this.counters.delete(bucket);
+      }
+    }
+  }
+
+  private read(key: string, window: CounterWindow, now: number): CounterState {
+    this.removeExpired(now);
+
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(now, window);
+      const counter = this.counters.get(`${key}:${windowStart}`);
+
+      return counter
+        ? { count: counter.count, resetAt: new Date(counter.expiresAt) }
+        : { count: 0, resetAt: null };
+    }
+
+    const events = (this.counters.get(key)?.events || []).filter(
+      time => time > now - window.durationMs
+    );
+    return this.rollingState(events, window);
+  }
+
+  private record(key: string, window: CounterWindow, now: number, id: string): CounterState {
+    this.removeExpired(now);
+
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(now, window);
+      const bucket = `${key}:${windowStart}`;
+      const counter = this.counters.get(bucket) || {
+        key,
+        count: 0,
+        events: [],
+        eventIds: [],
+        expiresAt: getFixedWindowEnd(windowStart, window),
+      };
+
+      counter.count++;
+      this.counters.set(bucket, counter);
+
+      return { count: counter.count, resetAt: new Date(counter.expiresAt) };
+    }
+
+    const counter = this.getRollingCounter(key, now, window);
+    counter.events.push(now);
+    counter.eventIds.push(id);
+    counter.count = counter.events.length;
+    counter.expiresAt = now + window.durationMs;
+    this.counters.set(key, counter);
+
+    return this.rollingState(counter.events, window);
+  }
+
+  /**
+   * Rolling counter for a key with the events that left the window dropped
+   */
+  private getRollingCounter(key: string, now: number, window: CounterWindow): MemoryCounter {
+    const counter = this.counters.get(key) || {
+      key,
+      count: 0,
+      events: [],
+      eventIds: [],
+      expiresAt: 0,
+    };
+
+    const kept = counter.events
+      .map((time, i) => ({ time, id: counter.eventIds[i] }))
+      .filter(({ time }) => time > now - window.durationMs);
+    counter.events = kept.map(({ time }) => time);
+    counter.eventIds = kept.map(({ id }) => id);
+
+    return counter;
+  }
+
+  private rollingState(events: number[], window: CounterWindow): CounterState {
+    return {
+      count: events.length,
+      resetAt: events.length > 0 ? new Date(Math.min(...events) + window.durationMs) : null,
+    };
+  }
+
+  private removeExpired(now: number): void {
+    for (const [bucket, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(bucket);
+      }
+    }
+  }
+}
@@ -0,0 +1,253 @@
+import { UsageCounter } from '@/models/mongodb/UsageCounter';
+import { generateUUID } from '@/utils/idGenerator';
+import {
+  CounterEvent,
+  CounterIncrementResult,
+  CounterState,
+  CounterStore,
+  CounterWindow,
+} from '../types';
+import { getFixedWindowEnd, getFixedWindowStart } from '../window';
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  return (error as { code?: number })?.code === 11000;
+};
+
+/**
+ * MongoDB counter store
+ * Shared by every instance and survives restarts. Fixed windows use one document
+ * per window; rolling windows keep the event times of the current window on one document.
+ */
+export class MongoCounterStore implements CounterStore {
+  public name = 'mongo';
+
+  async increment(key: string, window: CounterWindow): Promise<CounterState> {
+    const now = Date.now();
+
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(now, window);
+      const counter = await UsageCounter.findOneAndUpdate(
+        { bucket: this.fixedBucket(key, windowStart) },
+        {
+          $inc: { count: 1 },
+          $setOnInsert: {
+            key,
+            windowStart: new Date(windowStart),
+            expiresAt: new Date(getFixedWindowEnd(windowStart, window)),
+          },
+        },
+        { upsert: true, new: true }
+      ).lean();
+
+      return {
+        count: counter?.count || 0,
+        resetAt: new Date(getFixedWindowEnd(windowStart, window)),
+      };
+    }
+
+    // Drop events that left the window and record this one in a single atomic update
+    const cutoff = new Date(now - window.durationMs);
+    const counter = await UsageCounter.findOneAndUpdate(
+      { bucket: key },
+      [
+        {
+          $set: {
+            key,
+            events: {
+              $concatArrays: [
+                {
+                  $filter: {
+                    input: { $ifNull: ['$events', []] },
+                    as: 'event',
+                    cond: { $gt: ['$$event.at', cutoff] },
+                  },
+                },
+                [{ id: generateUUID(), at: new Date(now) }],
+              ],
+            },
+            expiresAt: new Date(now + window.durationMs),
+          },
+        },
+        { $set: { count: { $size: '$events' } } },
+      ],
+      { upsert: true, new: true }
+    ).lean();
+
+    return this.rollingState(counter?.events || [], now, window);
+  }
+
+  async tryIncrement(
+    key: string,
+    window: CounterWindow,
+    limit: number
+  ): Promise<CounterIncrementResult> {
+    const now = Date.now();
+    const event: CounterEvent = { id: generateUUID(), at: new Date(now) };
+
+    if (limit <= 0) {
+      return { accepted: false, event: null, state: await this.get(key, window) };
+    }
+
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(now, window);
+      const bucket = this.fixedBucket(key, windowStart);
+      const resetAt = new Date(getFixedWindowEnd(windowStart, window));
+
+      // The count filter makes the limit check part of the update. A full bucket doesn't
+      // match, so the upsert tries to insert a duplicate bucket and fails instead
+      const incrementBelowLimit = (upsert: boolean) =>
+        UsageCounter.findOneAndUpdate(
+          { bucket, count: { $lt: limit } },
+          {
+            $inc: { count: 1 },
+            $setOnInsert: {
+              key,
+              windowStart: new Date(windowStart),
+              expiresAt: resetAt,
+            },
+          },
+          { upsert, new: true }
+        ).lean();
+
+      let counter;
+      try {
+        counter = await incrementBelowLimit(true);
+      } catch (error) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+        // Either the bucket is full or another request created it first; retry against it
+        counter = await incrementBelowLimit(false);
+      }
+
+      if (!counter) {
+        return { accepted: false, event: null, state: await this.get(key, window) };
+      }
+
+      return { accepted: true, event, state: { count: counter.count, resetAt } };
+    }
+
+    // Drop expired events and append this one only while under the limit, in one atomic update
+    const cutoff = new Date(now - window.durationMs);
+    const update = [
+      {
+        $set: {
+          key,
+          events: {
+            $filter: {
+              input: { $ifNull: ['$events', []] },
+              as: 'event',
+              cond: { $gt: ['$$event.at', cutoff] },
+            },
+          },
+        },
+      },
+      {
+        $set: {
+          events: {
+            $cond: [
+              { $lt: [{ $size: '$events' }, limit] },
+              { $concatArrays: ['$events', [event]] },
+              '$events',
+            ],
+          },
+          expiresAt: new Date(now + window.durationMs),
+        },
+      },
+      { $set: { count: { $size: '$events' } } },
+    ];
+
+    let counter;
+    try {
+      counter = await UsageCounter.findOneAndUpdate({ bucket: key }, update, {
+        upsert: true,
+        new: true,
+      }).lean();
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+      // Another request created the counter first; it exists now, so update it
+      counter = await UsageCounter.findOneAndUpdate({ bucket: key }, update, {
+        new: true,
+      }).lean();
+    }
+
+    const events = counter?.events || [];
+    const accepted = events.some(recorded => recorded.id === event.id);
+
+    return {
+      accepted,
+      event: accepted ? event : null,
+      state: this.rollingState(events, now, window),
+    };
+  }
+
+  async release(key: string, window: CounterWindow, event: CounterEvent): Promise<void> {
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(event.at.getTime(), window);
+      await UsageCounter.updateOne(
+        { bucket: this.fixedBucket(key, windowStart), count: { $gt: 0 } },
+        { $inc: { count: -1 } }
+      );
+      return;
+    }
+
+    await UsageCounter.updateOne({ bucket: key }, [
+      {
+        $set: {
+          events: {
+            $filter: {
+              input: { $ifNull: ['$events', []] },
+              as: 'event',
+              cond: { $ne: ['$$event.id', event.id] },
+            },
+          },
+        },
+      },
+      { $set: { count: { $size: '$events' } } },
+    ]);
+  }
+
+  async get(key: string, window: CounterWindow): Promise<CounterState> {
+    const now = Date.now();
+
+    if (window.type === 'fixed') {
+      const windowStart = getFixedWindowStart(now, window);
+      const counter = await UsageCounter.findOne({
+        bucket: this.fixedBucket(key, windowStart),
+      }).lean();
+      const count = counter?.count || 0;
+
+      return {
+        count,
+        resetAt: count > 0 ? new Date(getFixedWindowEnd(windowStart, window)) : null,
+      };
+    }
+
+    const counter = await UsageCounter.findOne({ bucket: key }).lean();
+    return this.rollingState(counter?.events || [], now, window);
+  }
+
+  async reset(key: string): Promise<void> {
+    await UsageCounter.deleteMany({ key });
+  }
+
+  private fixedBucket(key: string, windowStart: number): string {
+    return `${key}:${windowStart}`;
+  }
+
+  /**
+   * Count events still inside the rolling window; the count next drops when the oldest expires
+   */
+  private rollingState(events: { at: Date }[], now: number, window: CounterWindow): CounterState {
+    const times = events
+      .map(event => new Date(event.at).getTime())
+      .filter(time => time > now - window.durationMs);
+
+    return {
+      count: times.length,
+      resetAt: times.length > 0 ? new Date(Math.min(...times) + window.durationMs) : null,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Counter window
+ * - fixed: counts reset at the end of each window, aligned to the epoch (a 1 day window resets at UTC midnight)
+ *   or, with calendarMonth, at the start of each UTC calendar month
+ * - rolling: counts only the events recorded within the last durationMs
+ */
+export type CounterWindowType = 'fixed' | 'rolling';
+
+export interface CounterWindow {
+  type: CounterWindowType;
+  durationMs: number;
+  // Fixed windows only: use UTC calendar months instead of durationMs
+  calendarMonth?: boolean;
+}
+
+export interface CounterState {
+  count: number;
+  // When the count next goes down (end of the fixed window, or when the oldest rolling event expires)
+  resetAt: Date | null;
+}
+
+// A single counted event, kept so the increment can be released later
+export interface CounterEvent {
+  id: string;
+  at: Date;
+}
+
+export interface CounterIncrementResult {
+  // False when the counter was already at the limit (nothing was counted)
+  accepted: boolean;
+  event: CounterEvent | null;
+  state: CounterState;
+}
+
+/**
+ * A counter store keeps usage counts per key and window.
+ * Increments must be atomic so concurrent requests and multiple instances are all counted,
+ * and tryIncrement must check the limit and count in the same atomic step.
+ */
+export interface CounterStore {
+  name: string;
+  increment(key: string, window: CounterWindow): Promise<CounterState>;
+  tryIncrement(key: string, window: CounterWindow, limit: number): Promise<CounterIncrementResult>;
+  release(key: string, window: CounterWindow, event: CounterEvent): Promise<void>;
+  get(key: string, window: CounterWindow): Promise<CounterState>;
+  reset(key: string): Promise<void>;
+}
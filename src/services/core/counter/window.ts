@@ -0,0 +1,23 @@
+import { CounterWindow } from './types';
+
+/**
+ * Start of the fixed window containing a time
+ */
+export const getFixedWindowStart = (time: number, window: CounterWindow): number => {
+  if (window.calendarMonth) {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  return Math.floor(time / window.durationMs) * window.durationMs;
+};
+
+/**
+ * End of the fixed window starting at windowStart, when its count resets
+ */
+export const getFixedWindowEnd = (windowStart: number, window: CounterWindow): number => {
+  if (window.calendarMonth) {
+    const date = new Date(windowStart);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+  return windowStart + window.durationMs;
+};
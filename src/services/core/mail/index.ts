@@ -0,0 +1,6 @@
+// Mail Service Exports
+export { mailService } from './mail.service';
+export { ConsoleTransport } from './transports/console.transport';
+export { FileTransport } from './transports/file.transport';
+export * from './templates';
+export type { IMailService, MailMessage, MailTemplate, MailTransport } from './types';
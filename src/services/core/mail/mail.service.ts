@@ -0,0 +1,95 @@
+import { config } from '@/config';
+import { EmailResult } from '@/types/api';
+import { logger } from '@/utils/logger';
+import { ConsoleTransport } from './transports/console.transport';
+import { FileTransport } from './transports/file.transport';
+import { IMailService, MailMessage, MailTransport } from './types';
+
+class MailService implements IMailService {
+  private static instance: MailService;
+  private transports: Map<string, MailTransport>;
+  private activeTransport: MailTransport;
+
+  private constructor() {
+    this.transports = new Map();
+    this.registerTransport(new ConsoleTransport());
+    this.registerTransport(new FileTransport(config.mail.fileDir));
+
+    const configured = this.transports.get(config.mail.provider);
+    if (!configured) {
+      logger.warn(
+        `📧 Unknown EMAIL_PROVIDER "${config.mail.provider}", falling back to console transport`
+      );
+    }
+    this.activeTransport = configured || this.transports.get('console')!;
+
+    logger.info(`📧 Mail service initialized with ${this.activeTransport.name} transport`);
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+
+  /**
+   * Make a transport available by name
+   */
+  public registerTransport(transport: MailTransport): void {
+    this.transports.set(transport.name, transport);
+  }
+
+  /**
+   * Switch the transport used for sending
+   */
+  public useTransport(name: string): void {
+    const transport = this.transports.get(name);
+    if (!transport) {
+      throw new Error(`Mail transport "${name}" is not registered`);
+    }
+    this.activeTransport = transport;
+  }
+
+  public getTransportName(): string {
+    return this.activeTransport.name;
+  }
+
+  /**
+   * Send a message through the active transport
+   */
+  public async send(message: MailMessage): Promise<EmailResult> {
+    const from = message.from || `${config.mail.fromName} <${config.mail.from}>`;
+
+    try {
+      return await this.activeTransport.send({ ...message, from });
+    } catch (error) {
+      logger.error('📧 Failed to send email', {
+        transport: this.activeTransport.name,
+        subject: message.subject,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message without throwing; failures are logged and reported as false
+   * Use when a failed delivery must not fail the calling request
+   */
+  public async trySend(message: MailMessage): Promise<boolean> {
+    try {
+      await this.send(message);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Export singleton instance for easy use
+export const mailService = MailService.getInstance();
+export default mailService;
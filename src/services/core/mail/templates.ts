@@ -0,0 +1,66 @@
+import { config } from '@/config';
+import { sanitizers } from '@/utils/validation';
+import { MailTemplate } from './types';
+
+const buildLink = (path: string, token: string): string =>
+  `${config.app.frontendUrl.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+
+const layout = (heading: string, body: string): string => `
+  <div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto;">
+    <h2>${heading}</h2>
+    ${body}
+    <p style="color: #888; font-size: 12px;">${config.mail.fromName}</p>
+  </div>
+`;
+
+/**
+ * Email sent after registration or when a new verification link is requested
+ */
+export const verificationEmail = (name: string, token: string): MailTemplate => {
+  const link = buildLink('/verify-email', token);
+
+  return {
+    subject: 'Verify your email address',
+    text: `Hi ${name},\n\nPlease verify your email address by opening the link below:\n\n${link}\n\nThe link expires in 24 hours. If you did not create an account, you can ignore this email.`,
+    html: layout(
+      'Verify your email address',
+      `<p>Hi ${sanitizers.stripHtml(name)},</p>
+    <p>Please verify your email address by clicking the link below:</p>
+    <p><a href="${link}">Verify email</a></p>
+    <p>The link expires in 24 hours. If you did not create an account, you can ignore this email.</p>`
+    ),
+  };
+};
+
+/**
+ * Email sent when a password reset is requested
+ */
+export const passwordResetEmail = (name: string, token: string): MailTemplate => {
+  const link = buildLink('/reset-password', token);
+
+  return {
+    subject: 'Reset your password',
+    text: `Hi ${name},\n\nWe received a request to reset your password. Open the link below to choose a new one:\n\n${link}\n\nThe link expires in 1 hour and can only be used once. If you did not request a reset, you can ignore this email.`,
+    html: layout(
+      'Reset your password',
+      `<p>Hi ${sanitizers.stripHtml(name)},</p>
+    <p>We received a request to reset your password. Click the link below to choose a new one:</p>
+    <p><a href="${link}">Reset password</a></p>
+    <p>The link expires in 1 hour and can only be used once. If you did not request a reset, you can ignore this email.</p>`
+    ),
+  };
+};
+
+/**
+ * Email sent after the password has been changed or reset
+ */
+export const passwordChangedEmail = (name: string): MailTemplate => ({
+  subject: 'Your password has been changed',
+  text: `Hi ${name},\n\nThe password for your account was just changed and all of your sessions were signed out.\n\nIf you did not make this change, reset your password immediately and contact support.`,
+  html: layout(
+    'Your password has been changed',
+    `<p>Hi ${sanitizers.stripHtml(name)},</p>
+    <p>The password for your account was just changed and all of your sessions were signed out.</p>
+    <p>If you did not make this change, reset your password immediately and contact support.</p>`
+  ),
+});
@@ -0,0 +1,32 @@
+import { EmailResult } from '@/types/api';
+import { generateUUID } from '@/utils/idGenerator';
+import { logger } from '@/utils/logger';
+import { MailMessage, MailTransport } from '../types';
+
+/**
+ * Console transport
+ * Logs messages instead of sending them - for local development
+ */
+export class ConsoleTransport implements MailTransport {
+  public name = 'console';
+
+  async send(message: MailMessage): Promise<EmailResult> {
+    const messageId = generateUUID();
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+
+    logger.info(`📧 Email (console transport) to ${recipients.join(', ')}: ${message.subject}`, {
+      messageId,
+      from: message.from,
+      to: recipients,
+      subject: message.subject,
+    });
+    logger.info(message.text || message.html || '');
+
+    return {
+      messageId,
+      accepted: recipients,
+      rejected: [],
+      response: 'logged to console',
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { EmailResult } from '@/types/api';
+import { generateUUID } from '@/utils/idGenerator';
+import { logger } from '@/utils/logger';
+import { MailMessage, MailTransport } from '../types';
+
+/**
+ * File transport
+ * Writes each message as a JSON file into a local outbox directory - for local development
+ */
+export class FileTransport implements MailTransport {
+  public name = 'file';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(process.cwd(), directory);
+  }
+
+  async send(message: MailMessage): Promise<EmailResult> {
+    const messageId = generateUUID();
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+    const filePath = path.join(this.directory, `${Date.now()}-${messageId}.json`);
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ messageId, date: new Date().toISOString(), ...message }, null, 2),
+      'utf8'
+    );
+
+    logger.info(`📧 Email (file transport) written to ${filePath}`, {
+      messageId,
+      to: recipients,
+      subject: message.subject,
+    });
+
+    return {
+      messageId,
+      accepted: recipients,
+      rejected: [],
+      response: `written to ${filePath}`,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { EmailData, EmailResult } from '@/types/api';
+
+export interface MailMessage extends EmailData {
+  from?: string;
+}
+
+/**
+ * A mail transport delivers a fully built message.
+ * Register new transports with MailService.registerTransport.
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<EmailResult>;
+}
+
+export interface MailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface IMailService {
+  send(message: MailMessage): Promise<EmailResult>;
+  trySend(message: MailMessage): Promise<boolean>;
+  registerTransport(transport: MailTransport): void;
+  useTransport(name: string): void;
+  getTransportName(): string;
+}
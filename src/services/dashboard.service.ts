@@ -3,8 +3,10 @@ import { PromptType } from '@/constants';
 import { generateUUID } from '@/utils/idGenerator';
 import { Request } from 'express';
 import TrendsModel from '../models/mongodb/Trends';
+import { budgetService } from './budget.service';
 import contentService from './core/ai/anthropic/anthropic.service';
 import { CacheService } from './core/cache';
+import { webhookService } from './webhook.service';
 
 const DASHBOARD_CACHE_KEY = 'dashboard_data';
 export class DashboardService {
@@ -69,9 +71,16 @@ export class DashboardService {
       }
     }
 
+    // Only the global budget applies to trends; once it runs out, skip web search on a cheaper model
+    const budget = await budgetService.checkGlobalBudget();
+    if (budget.action === 'refuse') {
+      throw new Error('The global AI spend budget for this month has been reached');
+    }
+
     const data = await contentService.analyzeContent(req, 'dashboard', PromptType.DASHBOARD, {
-      useTooling: true,
+      useTooling: budget.action === 'allow',
       cacheFirst: false,
+      model: budget.model,
     });
     if (data) {
       const parsedData = {
@@ -85,9 +94,15 @@ export class DashboardService {
       const trendData = {
         id: generateUUID(),
         data: parsedData,
-        modelName: config.ai.anthropic.model,
+        modelName: budget.model || config.ai.anthropic.model,
       };
       await TrendsModel.create(trendData);
+      // Trends are shared, so every webhook subscribed to refreshes hears about them
+      void webhookService.emit('dashboard.refreshed', null, {
+        trendsId: trendData.id,
+        requestDate: parsedData.requestDate,
+        modelName: trendData.modelName,
+      });
       // Return the data
       return parsedData;
     }
@@ -0,0 +1,249 @@
+import config from '../config';
+import { IJob, Job, JobStatus } from '../models/mongodb/Job';
+import { TIME } from '../utils/constants';
+import { generateUUID } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+import { getRetryDelay } from '../utils/retry';
+import { sanitizers } from '../utils/validation';
+
+export type JobHandler = (job: IJob) => Promise<void>;
+
+export interface EnqueueOptions {
+  // Runs of the job before it's marked failed; failed runs are retried with backoff
+  maxAttempts?: number;
+  backoff?: { baseDelayMs: number; maxDelayMs: number };
+}
+
+// Default backoff between attempts of a failed job
+const RETRY_BACKOFF = { baseDelayMs: 5000, maxDelayMs: 5 * 60 * 1000 };
+
+/**
+ * Job Queue Service
+ * Background jobs stored in MongoDB, so they survive restarts and can be shared by several
+ * instances. Each process polls for queued jobs and claims them atomically, running up to
+ * JOB_CONCURRENCY at a time with the handler registered for their type.
+ * Jobs left processing by a crashed worker are queued again: on startup for the jobs of
+ * earlier processes with the same JOB_WORKER_ID (the hostname by default), and by any worker
+ * once their lock is older than JOB_LOCK_TIMEOUT_MS.
+ */
+export class JobQueueService {
+  private static instance: JobQueueService;
+  private handlers = new Map<string, JobHandler>();
+  // The random part tells processes apart when PIDs repeat across restarts (PID 1 in containers)
+  private readonly workerId = `${config.jobs.workerId}:${process.pid}:${generateUUID().slice(0, 8)}`;
+  private timer: NodeJS.Timeout | null = null;
+  private running = 0;
+  private polling = false;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): JobQueueService {
+    if (!JobQueueService.instance) {
+      JobQueueService.instance = new JobQueueService();
+    }
+    return JobQueueService.instance;
+  }
+
+  public registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Queue a job; it starts right away when a worker slot is free
+   */
+  public async enqueue(
+    type: string,
+    userId: string,
+    payload: Record<string, any>,
+    options: EnqueueOptions = {}
+  ): Promise<IJob> {
+    const job = await Job.create({
+      id: generateUUID(),
+      type,
+      userId,
+      payload,
+      maxAttempts: options.maxAttempts || 1,
+      backoff: options.backoff || null,
+    });
+
+    if (this.timer) {
+      this.poll();
+    }
+
+    return job;
+  }
+
+  public async getJob(id: string): Promise<IJob | null> {
+    return Job.findOne({ id }).lean<IJob>();
+  }
+
+  /**
+   * Recover this worker's interrupted jobs and start polling
+   */
+  public async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    await this.recoverStuckJobs(true);
+    this.timer = setInterval(() => this.poll(), config.jobs.pollIntervalMs);
+    logger.info('Job queue started', {
+      workerId: this.workerId,
+      concurrency: config.jobs.concurrency,
+      handlers: [...this.handlers.keys()],
+    });
+    this.poll();
+  }
+
+  /**
+   * Stop claiming jobs; running jobs finish, or are recovered after a restart
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue jobs whose worker died again
+   * On startup that includes jobs of earlier processes with this worker ID, whatever their lock age
+   */
+  public async recoverStuckJobs(startup = false): Promise<number> {
+    const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutMs);
+    const thisWorker = new RegExp(`^${sanitizers.escapeRegex(config.jobs.workerId)}:`);
+
+    const result = await Job.updateMany(
+      {
+        status: JobStatus.PROCESSING,
+        lockedBy: { $ne: this.workerId },
+        $or: [{ lockedAt: { $lt: staleBefore } }, ...(startup ? [{ lockedBy: thisWorker }] : [])],
+      },
+      { $set: { status: JobStatus.QUEUED, runAt: new Date(), lockedAt: null, lockedBy: null } }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.warn('Recovered interrupted jobs', { count: result.modifiedCount, startup });
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Claim and start queued jobs while there are free slots
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.recoverStuckJobs();
+
+      while (this.timer && this.running < config.jobs.concurrency) {
+        const job = await this.claim();
+        if (!job) {
+          break;
+        }
+
+        this.running++;
+        this.run(job)
+          .catch(error =>
+            logger.error('Job could not be updated', {
+              jobId: job.id,
+              error: error instanceof Error ? error.message : error,
+            })
+          )
+          .finally(() => {
+            this.running--;
+            this.poll();
+          });
+      }
+    } catch (error) {
+      logger.error('Job queue poll failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claim(): Promise<IJob | null> {
+    const now = new Date();
+
+    return Job.findOneAndUpdate(
+      { status: JobStatus.QUEUED, runAt: { $lte: now } },
+      {
+        $set: {
+          status: JobStatus.PROCESSING,
+          lockedAt: now,
+          lockedBy: this.workerId,
+          startedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1, createdAt: 1 }, new: true }
+    );
+  }
+
+  private async run(job: IJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler for job type ${job.type}`);
+      }
+
+      await handler(job);
+      await this.finish(job, JobStatus.COMPLETED, null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (handler && job.attempts < job.maxAttempts) {
+        const delay = getRetryDelay(job.attempts - 1, job.backoff || RETRY_BACKOFF);
+        await Job.updateOne(
+          { id: job.id, lockedBy: this.workerId },
+          {
+            $set: {
+              status: JobStatus.QUEUED,
+              runAt: new Date(Date.now() + delay),
+              lockedAt: null,
+              lockedBy: null,
+              error: message.slice(0, 2000),
+            },
+          }
+        );
+        logger.warn('Job failed, retrying', { jobId: job.id, attempt: job.attempts, delay });
+        return;
+      }
+
+      logger.error('Job failed', { jobId: job.id, type: job.type, error: message });
+      await this.finish(job, JobStatus.FAILED, message.slice(0, 2000));
+    }
+  }
+
+  private async finish(job: IJob, status: JobStatus, error: string | null): Promise<void> {
+    const completedAt = new Date();
+
+    await Job.updateOne(
+      { id: job.id, lockedBy: this.workerId },
+      {
+        $set: {
+          status,
+          error,
+          completedAt,
+          lockedAt: null,
+          lockedBy: null,
+          expiresAt: new Date(completedAt.getTime() + config.jobs.retentionDays * TIME.DAY),
+        },
+      }
+    );
+  }
+}
+
+// Export singleton instance for easy use
+export const jobQueueService = JobQueueService.getInstance();
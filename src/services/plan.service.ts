@@ -0,0 +1,271 @@
+import config from '../config';
+import { IPlan, IPlanBudgets, IPlanQuota, Plan } from '../models';
+import {
+  PLAN_FEATURES,
+  PLANS,
+  PlanFeature,
+  PlanName,
+  QUOTA_CONTENT_TYPES,
+  QuotaContentType,
+} from '../utils/constants';
+import { logger } from '../utils/logger';
+import { cacheService } from './core/cache/cache.service';
+import { userService } from './user.service';
+
+// How long plans are trusted from memory before re-reading them (seconds)
+const PLAN_CACHE_TTL = 60;
+
+export interface PlanDefinition {
+  name: PlanName;
+  displayName: string;
+  description?: string;
+  quotas: Record<QuotaContentType, IPlanQuota>;
+  maxContentLength: number;
+  features: PlanFeature[];
+  budgets: IPlanBudgets;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+export type PlanUpdate = Partial<
+  Omit<PlanDefinition, 'name' | 'isDefault' | 'quotas' | 'budgets'>
+> & {
+  quotas?: Partial<Record<QuotaContentType, Partial<IPlanQuota>>>;
+  budgets?: Partial<IPlanBudgets>;
+};
+
+/**
+ * Plans created on first start. Existing plans are never overwritten,
+ * so changes made through the admin endpoints survive restarts.
+ * The free plan's daily quota comes from CONTENT_TRIAL_LIMIT.
+ */
+export const DEFAULT_PLANS: PlanDefinition[] = [
+  {
+    name: PLANS.FREE,
+    displayName: 'Free',
+    description: 'Try content analysis with a small daily allowance',
+    quotas: {
+      content: { daily: config.usage.trialLimit, monthly: 50 },
+      video: { daily: config.usage.trialLimit, monthly: 50 },
+    },
+    maxContentLength: 10000,
+    features: [],
+    budgets: { monthlyUsd: null, perUserMonthlyUsd: 1 },
+    isDefault: true,
+    isActive: true,
+  },
+  {
+    name: PLANS.PRO,
+    displayName: 'Pro',
+    description: 'Higher quotas, longer content and web search',
+    quotas: {
+      content: { daily: 50, monthly: 1000 },
+      video: { daily: 20, monthly: 300 },
+    },
+    maxContentLength: 20000,
+    features: [PLAN_FEATURES.WEB_SEARCH],
+    budgets: { monthlyUsd: null, perUserMonthlyUsd: 20 },
+    isDefault: false,
+    isActive: true,
+  },
+  {
+    name: PLANS.TEAM,
+    displayName: 'Team',
+    description: 'Quotas sized for teams sharing the platform',
+    quotas: {
+      content: { daily: 200, monthly: 5000 },
+      video: { daily: 100, monthly: 2000 },
+    },
+    maxContentLength: 50000,
+    features: [PLAN_FEATURES.WEB_SEARCH],
+    budgets: { monthlyUsd: null, perUserMonthlyUsd: 100 },
+    isDefault: false,
+    isActive: true,
+  },
+];
+
+/**
+ * Copy a plan into a plain object, so cached plans can't be mutated by callers
+ */
+const toPlanDefinition = (plan: PlanDefinition | IPlan): PlanDefinition => ({
+  name: plan.name,
+  displayName: plan.displayName,
+  description: plan.description,
+  quotas: Object.fromEntries(
+    QUOTA_CONTENT_TYPES.map(type => [
+      type,
+      { daily: plan.quotas[type].daily, monthly: plan.quotas[type].monthly },
+    ])
+  ) as Record<QuotaContentType, IPlanQuota>,
+  maxContentLength: plan.maxContentLength,
+  features: [...plan.features],
+  // Plans created before budgets existed have none
+  budgets: {
+    monthlyUsd: plan.budgets?.monthlyUsd ?? null,
+    perUserMonthlyUsd: plan.budgets?.perUserMonthlyUsd ?? null,
+  },
+  isDefault: plan.isDefault,
+  isActive: plan.isActive,
+});
+
+/**
+ * Plan Service
+ * Loads subscription plans and resolves the plan that applies to a user.
+ * Users without a plan, or on an inactive one, get the default plan.
+ */
+export class PlanService {
+  private static instance: PlanService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PlanService {
+    if (!PlanService.instance) {
+      PlanService.instance = new PlanService();
+    }
+    return PlanService.instance;
+  }
+
+  /**
+   * Create any default plan that doesn't exist yet
+   */
+  public async seedDefaultPlans(): Promise<void> {
+    const result = await Plan.bulkWrite(
+      DEFAULT_PLANS.map(plan => ({
+        updateOne: {
+          filter: { name: plan.name },
+          update: { $setOnInsert: plan },
+          upsert: true,
+        },
+      }))
+    );
+
+    if (result.upsertedCount > 0) {
+      logger.info('Default plans created', { count: result.upsertedCount });
+    }
+  }
+
+  /**
+   * Get a plan by name, or null if it doesn't exist
+   */
+  public async getPlan(name: string): Promise<PlanDefinition | null> {
+    const key = this.planKey(name);
+    const cached = cacheService.getFromCache<PlanDefinition>(key);
+    if (cached) {
+      return toPlanDefinition(cached);
+    }
+
+    const plan = await Plan.findOne({ name }).lean<IPlan>();
+    if (!plan) {
+      return null;
+    }
+
+    const definition = toPlanDefinition(plan);
+    cacheService.saveToCache(key, definition, { expiresIn: PLAN_CACHE_TTL });
+
+    return toPlanDefinition(definition);
+  }
+
+  /**
+   * Get the plan given to users without one
+   * Falls back to the built-in free plan if none is marked as default
+   */
+  public async getDefaultPlan(): Promise<PlanDefinition> {
+    const key = this.planKey('default');
+    const cached = cacheService.getFromCache<PlanDefinition>(key);
+    if (cached) {
+      return toPlanDefinition(cached);
+    }
+
+    const plan = await Plan.findOne({ isDefault: true, isActive: true }).lean<IPlan>();
+    const definition = plan
+      ? toPlanDefinition(plan)
+      : toPlanDefinition(DEFAULT_PLANS.find(p => p.isDefault)!);
+
+    cacheService.saveToCache(key, definition, { expiresIn: PLAN_CACHE_TTL });
+
+    return toPlanDefinition(definition);
+  }
+
+  /**
+   * Get the plan that applies to a user
+   */
+  public async getPlanForUser(userId: string): Promise<PlanDefinition> {
+    const user = await userService.getAuthUser(userId);
+
+    if (user?.plan) {
+      const plan = await this.getPlan(user.plan);
+      if (plan?.isActive) {
+        return plan;
+      }
+    }
+
+    return this.getDefaultPlan();
+  }
+
+  /**
+   * Check whether a plan includes a feature
+   */
+  public hasFeature(plan: PlanDefinition, feature: PlanFeature): boolean {
+    return plan.features.includes(feature);
+  }
+
+  /**
+   * List every plan
+   */
+  public async listPlans(): Promise<PlanDefinition[]> {
+    const plans = await Plan.find().sort({ createdAt: 1 }).lean<IPlan[]>();
+
+    return plans.map(toPlanDefinition);
+  }
+
+  /**
+   * Update a plan's quotas, limits or features, or null if it doesn't exist
+   * Quotas and budgets are merged, so omitted values are left untouched
+   */
+  public async updatePlan(name: string, update: PlanUpdate): Promise<PlanDefinition | null> {
+    const { quotas, budgets, ...fields } = update;
+    const $set: Record<string, unknown> = { ...fields };
+
+    if (quotas) {
+      Object.entries(quotas).forEach(([type, quota]) => {
+        Object.entries(quota || {}).forEach(([period, value]) => {
+          $set[`quotas.${type}.${period}`] = value;
+        });
+      });
+    }
+
+    if (budgets) {
+      Object.entries(budgets).forEach(([budget, value]) => {
+        $set[`budgets.${budget}`] = value;
+      });
+    }
+
+    const plan = await Plan.findOneAndUpdate(
+      { name },
+      { $set },
+      { new: true, runValidators: true }
+    ).lean<IPlan>();
+
+    this.invalidatePlan(name);
+
+    return plan ? toPlanDefinition(plan) : null;
+  }
+
+  /**
+   * Drop cached plans so the next request reads them from the database
+   */
+  public invalidatePlan(name: string): void {
+    cacheService.deleteFromCache(this.planKey(name));
+    cacheService.deleteFromCache(this.planKey('default'));
+  }
+
+  private planKey(name: string): string {
+    return `plan:${name}`;
+  }
+}
+
+// Export singleton instance for easy use
+export const planService = PlanService.getInstance();
@@ -0,0 +1,247 @@
+import { Request } from 'express';
+import { IRefreshToken, IUser, RevokedToken, User } from '../models';
+import { AuthenticationError } from '../utils/errors';
+import { AUTH, CACHE } from '../utils/constants';
+import { JWTUtils, TokenPair, TokenPayload } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { auditLog } from './auditLog.service';
+import { cacheService } from './core/cache/cache.service';
+import { userService } from './user.service';
+
+/**
+ * Token Service
+ * Issues token pairs, rotates refresh tokens and revokes sessions.
+ * Refresh tokens are stored hashed on the user, grouped by family so that
+ * replaying an already-rotated token revokes every token descended from the same login.
+ * Access tokens are revoked individually through a jti denylist, or all at once by
+ * bumping the user's token version.
+ */
+export class TokenService {
+  private static instance: TokenService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TokenService {
+    if (!TokenService.instance) {
+      TokenService.instance = new TokenService();
+    }
+    return TokenService.instance;
+  }
+
+  /**
+   * Issue a new token pair for the user and store the hashed refresh token.
+   * Pass the family of a rotated token to keep the chain together.
+   */
+  public async issueTokenPair(user: IUser, req?: Request, family?: string): Promise<TokenPair> {
+    const tokenPair = JWTUtils.generateTokenPair(
+      {
+        userId: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        tokenVersion: user.tokenVersion,
+      },
+      family
+    );
+
+    await this.storeRefreshToken(user, tokenPair.refreshToken, req);
+
+    return tokenPair;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair.
+   * The presented token is consumed; presenting it again revokes its whole family.
+   */
+  public async rotateRefreshToken(
+    refreshToken: string,
+    req: Request
+  ): Promise<{ user: IUser; tokens: TokenPair }> {
+    const verifyResult = JWTUtils.verifyRefreshToken(refreshToken);
+
+    if (!verifyResult.valid || !verifyResult.payload) {
+      throw new AuthenticationError(
+        verifyResult.expired ? 'Refresh token has expired' : 'Invalid refresh token'
+      );
+    }
+
+    const { userId, family, tokenVersion = 0 } = verifyResult.payload;
+    if (!family) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    // Sessions were revoked after this token was issued
+    if (tokenVersion < (user.tokenVersion || 0)) {
+      throw new AuthenticationError('Refresh token has been revoked');
+    }
+
+    // Atomically consume the token so two concurrent refreshes can't both succeed
+    const tokenHash = JWTUtils.hashToken(refreshToken);
+    const consumed = await User.updateOne(
+      { _id: user._id, 'refreshTokens.tokenHash': tokenHash },
+      { $pull: { refreshTokens: { tokenHash } } }
+    );
+
+    if (consumed.modifiedCount === 0) {
+      await this.revokeFamily(user, family);
+
+      await auditLog.logFromRequest(
+        req,
+        'REFRESH_TOKEN_REUSE_DETECTED',
+        `Revoked refresh token reused, token family invalidated: ${user.email}`,
+        {
+          userId: user._id.toString(),
+          email: user.email,
+          family,
+        },
+        user.email
+      );
+
+      logger.warn('Refresh token reuse detected', {
+        userId: user._id.toString(),
+        family,
+        ip: req.ip,
+      });
+
+      throw new AuthenticationError('Refresh token has been revoked');
+    }
+
+    const tokens = await this.issueTokenPair(user, req, family);
+
+    await auditLog.logFromRequest(
+      req,
+      'TOKEN_REFRESHED',
+      `Token refreshed: ${user.email}`,
+      {
+        userId: user._id.toString(),
+        email: user.email,
+        family,
+      },
+      user.email
+    );
+
+    return { user, tokens };
+  }
+
+  /**
+   * Remove every stored refresh token belonging to a family
+   */
+  public async revokeFamily(user: IUser, family: string): Promise<void> {
+    await User.updateOne({ _id: user._id }, { $pull: { refreshTokens: { family } } });
+  }
+
+  /**
+   * Revoke a single refresh token by revoking its family (used on logout)
+   */
+  public async revokeRefreshToken(user: IUser, refreshToken: string): Promise<void> {
+    const payload = JWTUtils.decodeToken(refreshToken)?.payload as TokenPayload | undefined;
+
+    if (payload?.family && payload.userId === user._id.toString()) {
+      await this.revokeFamily(user, payload.family);
+    }
+  }
+
+  /**
+   * Add an access token to the denylist until it expires
+   */
+  public async revokeAccessToken(payload: TokenPayload, reason: string = 'logout'): Promise<void> {
+    if (!payload.jti || !payload.exp) {
+      return;
+    }
+
+    const expiresAt = new Date(payload.exp * 1000);
+    await RevokedToken.updateOne(
+      { jti: payload.jti },
+      { $setOnInsert: { jti: payload.jti, userId: payload.userId, reason, expiresAt } },
+      { upsert: true }
+    );
+
+    const ttl = Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+    cacheService.saveToCache(this.revokedTokenKey(payload.jti), true, { expiresIn: ttl });
+  }
+
+  /**
+   * Revoke every session of a user: bumps the token version, which invalidates
+   * all outstanding access and refresh tokens, and drops stored refresh tokens
+   */
+  public async revokeAllSessions(userId: string): Promise<void> {
+    await User.updateOne(
+      { _id: userId },
+      { $inc: { tokenVersion: 1 }, $set: { refreshTokens: [] } }
+    );
+
+    userService.invalidateUser(userId);
+  }
+
+  /**
+   * Check whether an access token has been revoked, either individually
+   * or by a later logout-all (the user's current token version is newer)
+   */
+  public async isAccessTokenRevoked(
+    payload: TokenPayload,
+    currentTokenVersion: number
+  ): Promise<boolean> {
+    if ((payload.tokenVersion || 0) < currentTokenVersion) {
+      return true;
+    }
+
+    if (!payload.jti) {
+      return false;
+    }
+
+    if (cacheService.getFromCache<boolean>(this.revokedTokenKey(payload.jti))) {
+      return true;
+    }
+
+    return Boolean(await RevokedToken.exists({ jti: payload.jti }));
+  }
+
+  private revokedTokenKey(jti: string): string {
+    return `${CACHE.KEYS.AUTH_TOKEN}revoked:${jti}`;
+  }
+
+  /**
+   * Store a hashed refresh token, dropping expired ones and keeping
+   * at most MAX_CONCURRENT_SESSIONS tokens per user
+   */
+  private async storeRefreshToken(user: IUser, refreshToken: string, req?: Request): Promise<void> {
+    const payload = JWTUtils.verifyRefreshToken(refreshToken).payload;
+    const expiresAt = new Date((JWTUtils.getTokenExpiration(refreshToken) || 0) * 1000);
+
+    const entry: IRefreshToken = {
+      tokenHash: JWTUtils.hashToken(refreshToken),
+      family: payload?.family || '',
+      expiresAt,
+      createdAt: new Date(),
+      createdByIp: req?.ip,
+      userAgent: req?.get('User-Agent'),
+    };
+
+    await User.updateOne(
+      { _id: user._id },
+      { $pull: { refreshTokens: { expiresAt: { $lt: new Date() } } } }
+    );
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $push: {
+          refreshTokens: {
+            $each: [entry],
+            $slice: -AUTH.SESSION.MAX_CONCURRENT_SESSIONS,
+          },
+        },
+      }
+    );
+  }
+}
+
+// Export singleton instance for easy use
+export const tokenService = TokenService.getInstance();
@@ -1,16 +1,61 @@
-import { cacheService } from './core/cache/cache.service';
+import config from '../config';
+import { PlanName, TIME } from '../utils/constants';
+import { counterService } from './core/counter/counter.service';
+import { CounterEvent, CounterState, CounterWindow } from './core/counter/types';
+import { PlanDefinition, planService } from './plan.service';
+import { webhookService } from './webhook.service';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface QuotaPeriodUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  resetAt: Date | null;
+}
+
+export interface QuotaUsage {
+  plan: PlanName;
+  contentType: string;
+  daily: QuotaPeriodUsage;
+  monthly: QuotaPeriodUsage;
+  // Analyses left before either quota is reached
+  remaining: number;
+  // The quota that has been reached, if any (daily wins when both are)
+  exceeded: QuotaPeriod | null;
+}
+
+/**
+ * An analysis counted against the quotas before it runs
+ * Commit it when the analysis succeeds, release it when it fails
+ */
+export interface QuotaReservation {
+  userId: string;
+  contentType: string;
+  // False when a quota was already reached; nothing was counted
+  accepted: boolean;
+  exceeded: QuotaPeriod | null;
+  // Usage including this reservation
+  usage: QuotaUsage;
+  status: 'reserved' | 'committed' | 'released' | 'rejected';
+  events: Partial<Record<QuotaPeriod, CounterEvent>>;
+}
+
+const QUOTA_PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
 
 /**
  * Trial Limit Service
- * Manages user trial limits for content analysis
- * Uses cache service for storage with 24-hour expiration
+ * Enforces the daily and monthly analysis quotas of the user's plan, per content type
+ * Counts are kept by the counter service (MongoDB by default), so they survive
+ * restarts and are shared between instances. Windows are fixed or rolling, see config.usage.
+ * Analyses reserve quota before running, so concurrent requests can't exceed it.
  */
 export class TrialLimitService {
   private static instance: TrialLimitService;
-  private cacheService: typeof cacheService;
+  private counterService: typeof counterService;
 
   private constructor() {
-    this.cacheService = cacheService;
+    this.counterService = counterService;
   }
 
   /**
@@ -24,87 +69,248 @@ export class TrialLimitService {
   }
 
   /**
-   * Generate cache key for trial limits
+   * Generate counter key for trial limits
    */
-  private generateTrialKey(userId: string, contentType: string): string {
-    return `${userId}-content-tries-${contentType}`;
+  private generateTrialKey(userId: string, contentType: string, period: QuotaPeriod): string {
+    return `trial:${userId}:${contentType}:${period}`;
   }
 
   /**
-   * Check if user has exceeded trial limit
+   * Window a quota period is counted over
+   * Fixed monthly windows are UTC calendar months, like the AI spend budgets; rolling ones
+   * count the last 30 days
    */
-  public checkLimit(userId: string, contentType: string): boolean {
-    const trialLimit = Number(process.env.CONTENT_TRIAL_LIMIT) || 5;
-    const currentCount = this.getCount(userId, contentType);
-    
-    return currentCount >= trialLimit;
+  private getWindow(period: QuotaPeriod): CounterWindow {
+    return {
+      type: config.usage.windowType,
+      durationMs: period === 'daily' ? TIME.DAY : TIME.MONTH,
+      calendarMonth: period === 'monthly',
+    };
+  }
+
+  private getPeriodUsage(state: CounterState, limit: number): QuotaPeriodUsage {
+    return {
+      used: state.count,
+      limit,
+      remaining: Math.max(0, limit - state.count),
+      resetAt: state.resetAt,
+    };
   }
 
   /**
-   * Get current trial count for user and content type
+   * Quota of a content type; types the plan doesn't list (or names like "constructor" that
+   * only exist on the prototype) get none
    */
-  public getCount(userId: string, contentType: string): number {
-    const key = this.generateTrialKey(userId, contentType);
-    const cacheInfo = this.cacheService.getCacheInfo(key);
-    
-    return cacheInfo?.value || 0;
+  private getQuota(plan: PlanDefinition, contentType: string): Record<QuotaPeriod, number> {
+    if (!Object.prototype.hasOwnProperty.call(plan.quotas, contentType)) {
+      return { daily: 0, monthly: 0 };
+    }
+    return plan.quotas[contentType as keyof PlanDefinition['quotas']];
+  }
+
+  private buildUsage(
+    plan: PlanDefinition,
+    contentType: string,
+    dailyState: CounterState,
+    monthlyState: CounterState
+  ): QuotaUsage {
+    const quota = this.getQuota(plan, contentType);
+    const daily = this.getPeriodUsage(dailyState, quota.daily);
+    const monthly = this.getPeriodUsage(monthlyState, quota.monthly);
+
+    return {
+      plan: plan.name,
+      contentType,
+      daily,
+      monthly,
+      remaining: Math.min(daily.remaining, monthly.remaining),
+      exceeded: daily.remaining === 0 ? 'daily' : monthly.remaining === 0 ? 'monthly' : null,
+    };
   }
 
   /**
-   * Increment trial count for user and content type
+   * Current usage of a content type against the user's plan
+   * Pass the plan when the caller already resolved it
    */
-  public incrementCount(userId: string, contentType: string): void {
-    const key = this.generateTrialKey(userId, contentType);
-    const currentCount = this.getCount(userId, contentType);
-    
-    // Cache for 24 hours (86400 seconds)
-    this.cacheService.saveToCache(key, currentCount + 1, {
-      expiresIn: 24 * 60 * 60, // 24 hours in seconds
-    });
+  public async getUsage(
+    userId: string,
+    contentType: string,
+    plan?: PlanDefinition
+  ): Promise<QuotaUsage> {
+    const userPlan = plan || (await planService.getPlanForUser(userId));
+
+    const [dailyState, monthlyState] = await Promise.all(
+      QUOTA_PERIODS.map(period =>
+        this.counterService.get(
+          this.generateTrialKey(userId, contentType, period),
+          this.getWindow(period)
+        )
+      )
+    );
+
+    return this.buildUsage(userPlan, contentType, dailyState, monthlyState);
   }
 
   /**
-   * Reset trial count for user and content type (for testing or admin purposes)
+   * Check if user has reached either quota of their plan
    */
-  public resetCount(userId: string, contentType: string): void {
-    const key = this.generateTrialKey(userId, contentType);
-    this.cacheService.deleteFromCache(key);
+  public async checkLimit(userId: string, contentType: string): Promise<boolean> {
+    const usage = await this.getUsage(userId, contentType);
+
+    return usage.exceeded !== null;
   }
 
   /**
-   * Get trial limit from environment
+   * Count an analysis against the daily and monthly quotas, unless either is reached
+   * Each quota is checked and counted in one atomic step, so parallel requests can't
+   * all pass the check. Not accepted reservations count nothing.
    */
-  public getTrialLimit(): number {
-    return Number(process.env.CONTENT_TRIAL_LIMIT) || 5;
+  public async reserve(
+    userId: string,
+    contentType: string,
+    plan?: PlanDefinition
+  ): Promise<QuotaReservation> {
+    const userPlan = plan || (await planService.getPlanForUser(userId));
+    const quota = this.getQuota(userPlan, contentType);
+    const events: Partial<Record<QuotaPeriod, CounterEvent>> = {};
+    const states: CounterState[] = [];
+
+    for (const period of QUOTA_PERIODS) {
+      const result = await this.counterService.tryIncrement(
+        this.generateTrialKey(userId, contentType, period),
+        this.getWindow(period),
+        quota[period]
+      );
+
+      if (!result.accepted || !result.event) {
+        // Undo the quotas already counted, so a full monthly quota doesn't use up a daily try
+        await this.releaseEvents(userId, contentType, events);
+
+        return {
+          userId,
+          contentType,
+          accepted: false,
+          exceeded: period,
+          usage: await this.getUsage(userId, contentType, userPlan),
+          status: 'rejected',
+          events: {},
+        };
+      }
+
+      events[period] = result.event;
+      states.push(result.state);
+    }
+
+    return {
+      userId,
+      contentType,
+      accepted: true,
+      exceeded: null,
+      usage: this.buildUsage(userPlan, contentType, states[0], states[1]),
+      status: 'reserved',
+      events,
+    };
   }
 
   /**
-   * Get remaining trials for user
+   * Keep a reservation once the analysis succeeded
+   * When it used the last try of a quota, the user's webhooks are told the quota is exhausted
    */
-  public getRemainingTrials(userId: string, contentType: string): number {
-    const limit = this.getTrialLimit();
-    const currentCount = this.getCount(userId, contentType);
-    
-    return Math.max(0, limit - currentCount);
+  public commit(reservation: QuotaReservation): void {
+    if (reservation.status !== 'reserved') {
+      return;
+    }
+
+    reservation.status = 'committed';
+
+    const { usage } = reservation;
+    if (usage.exceeded) {
+      void webhookService.emit('quota.exhausted', reservation.userId, {
+        contentType: reservation.contentType,
+        period: usage.exceeded,
+        limit: usage[usage.exceeded].limit,
+        resetAt: usage[usage.exceeded].resetAt,
+        plan: usage.plan,
+      });
+    }
+  }
+
+  /**
+   * Give back a reservation when the analysis failed
+   * Committed, rejected and already released reservations are left alone
+   */
+  public async release(reservation: QuotaReservation): Promise<void> {
+    if (reservation.status !== 'reserved') {
+      return;
+    }
+
+    reservation.status = 'released';
+    await this.releaseEvents(reservation.userId, reservation.contentType, reservation.events);
+  }
+
+  private async releaseEvents(
+    userId: string,
+    contentType: string,
+    events: Partial<Record<QuotaPeriod, CounterEvent>>
+  ): Promise<void> {
+    await Promise.all(
+      QUOTA_PERIODS.filter(period => events[period]).map(period =>
+        this.counterService.release(
+          this.generateTrialKey(userId, contentType, period),
+          this.getWindow(period),
+          events[period]!
+        )
+      )
+    );
+  }
+
+  /**
+   * Reset trial counts for user and content type (for testing or admin purposes)
+   * Resets both quotas unless a period is given
+   */
+  public async resetCount(
+    userId: string,
+    contentType: string,
+    period?: QuotaPeriod
+  ): Promise<void> {
+    const periods = period ? [period] : QUOTA_PERIODS;
+
+    await Promise.all(
+      periods.map(p => this.counterService.reset(this.generateTrialKey(userId, contentType, p)))
+    );
+  }
+
+  /**
+   * Daily quota of the user's plan for a content type
+   */
+  public async getTrialLimit(userId: string, contentType: string): Promise<number> {
+    const usage = await this.getUsage(userId, contentType);
+
+    return usage.daily.limit;
   }
 
   /**
-   * Check if trials will reset soon (within next hour)
+   * Get remaining trials for user, the lower of the daily and monthly allowance
    */
-  public getTimeUntilReset(userId: string, contentType: string): number | null {
-    const key = this.generateTrialKey(userId, contentType);
-    const cacheInfo = this.cacheService.getCacheInfo(key);
-    
-    if (!cacheInfo) {
+  public async getRemainingTrials(userId: string, contentType: string): Promise<number> {
+    const usage = await this.getUsage(userId, contentType);
+
+    return usage.remaining;
+  }
+
+  /**
+   * Milliseconds until the user can analyze again, or null if no trials are recorded
+   * Uses the quota that has been reached, or the daily quota when neither has
+   */
+  public async getTimeUntilReset(userId: string, contentType: string): Promise<number | null> {
+    const usage = await this.getUsage(userId, contentType);
+    const resetAt = usage[usage.exceeded || 'daily'].resetAt;
+
+    if (!resetAt) {
       return null; // No trials recorded
     }
 
-    // Calculate remaining TTL in milliseconds
-    const currentTime = Date.now();
-    const expiryTime = cacheInfo.created + (24 * 60 * 60 * 1000); // 24 hours from creation
-    const timeUntilReset = expiryTime - currentTime;
-    
-    return Math.max(0, timeUntilReset);
+    return Math.max(0, resetAt.getTime() - Date.now());
   }
 }
 
@@ -0,0 +1,253 @@
+import mongoose from 'mongoose';
+import { User, UsageRecord, UsageRecordStatus } from '../models';
+import { logger } from '../utils/logger';
+
+export interface UsageEntry {
+  userId: string;
+  plan?: string;
+  analysisId: string;
+  contentType: string;
+  modelName: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  webSearchRequests?: number;
+  costUsd?: number;
+  cacheHit: boolean;
+  latencyMs: number;
+  status: UsageRecordStatus;
+}
+
+export interface UsageTotals {
+  analyses: number;
+  cacheHits: number;
+  cacheMisses: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  webSearchRequests: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string;
+}
+
+export interface UserUsageSummary {
+  daily: UsageTotals;
+  monthly: UsageTotals;
+  days: DailyUsage[];
+}
+
+export type UsageGroupBy = 'user' | 'model' | 'contentType' | 'day';
+
+export interface UsageRollupQuery {
+  startDate: Date;
+  endDate: Date;
+  groupBy: UsageGroupBy;
+  page: number;
+  limit: number;
+}
+
+export interface UsageRollupRow extends UsageTotals {
+  key: string;
+  email?: string;
+}
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['user', 'model', 'contentType', 'day'];
+
+const GROUP_KEYS: Record<UsageGroupBy, unknown> = {
+  user: '$userId',
+  model: '$modelName',
+  contentType: '$contentType',
+  day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+};
+
+// $group accumulators shared by every usage aggregation
+const TOTALS_GROUP = {
+  analyses: { $sum: 1 },
+  cacheHits: { $sum: { $cond: ['$cacheHit', 1, 0] } },
+  failed: { $sum: { $cond: [{ $eq: ['$status', 'error'] }, 1, 0] } },
+  inputTokens: { $sum: '$inputTokens' },
+  outputTokens: { $sum: '$outputTokens' },
+  webSearchRequests: { $sum: '$webSearchRequests' },
+  costUsd: { $sum: '$costUsd' },
+  latencyMs: { $sum: '$latencyMs' },
+};
+
+interface RawTotals {
+  _id?: string | null;
+  analyses: number;
+  cacheHits: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+const EMPTY_TOTALS: RawTotals = {
+  analyses: 0,
+  cacheHits: 0,
+  failed: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  webSearchRequests: 0,
+  costUsd: 0,
+  latencyMs: 0,
+};
+
+// Costs are estimates, rounded to a millionth of a dollar
+const roundUsd = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+const toTotals = (raw: RawTotals = EMPTY_TOTALS): UsageTotals => ({
+  analyses: raw.analyses,
+  cacheHits: raw.cacheHits,
+  cacheMisses: raw.analyses - raw.cacheHits,
+  failed: raw.failed,
+  inputTokens: raw.inputTokens,
+  outputTokens: raw.outputTokens,
+  totalTokens: raw.inputTokens + raw.outputTokens,
+  webSearchRequests: raw.webSearchRequests,
+  costUsd: roundUsd(raw.costUsd),
+  avgLatencyMs: raw.analyses > 0 ? Math.round(raw.latencyMs / raw.analyses) : 0,
+});
+
+const sumTotals = (rows: RawTotals[]): RawTotals => {
+  return rows.reduce(
+    (sum, row) => ({
+      analyses: sum.analyses + row.analyses,
+      cacheHits: sum.cacheHits + row.cacheHits,
+      failed: sum.failed + row.failed,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      webSearchRequests: sum.webSearchRequests + row.webSearchRequests,
+      costUsd: sum.costUsd + row.costUsd,
+      latencyMs: sum.latencyMs + row.latencyMs,
+    }),
+    { ...EMPTY_TOTALS }
+  );
+};
+
+/**
+ * Usage Service
+ * Meters every analysis (tokens, estimated cost, model, cache hit, latency) and aggregates it
+ * per user for the usage endpoint and across users for cost reporting.
+ * Days and months are UTC.
+ */
+export class UsageService {
+  private static instance: UsageService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  /**
+   * Record one analysis
+   * Never throws: a metering failure must not fail the analysis itself
+   */
+  public async record(entry: UsageEntry): Promise<void> {
+    try {
+      await UsageRecord.create({
+        ...entry,
+        inputTokens: entry.inputTokens || 0,
+        outputTokens: entry.outputTokens || 0,
+        webSearchRequests: entry.webSearchRequests || 0,
+        costUsd: entry.costUsd || 0,
+      });
+    } catch (error) {
+      logger.error('Failed to record usage', {
+        error: error instanceof Error ? error.message : error,
+        userId: entry.userId,
+        analysisId: entry.analysisId,
+      });
+    }
+  }
+
+  /**
+   * A user's usage today and this month, with a per-day breakdown of the month
+   */
+  public async getUserUsage(userId: string, now: Date = new Date()): Promise<UserUsageSummary> {
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const today = now.toISOString().slice(0, 10);
+
+    const rows = await UsageRecord.aggregate<RawTotals>([
+      { $match: { userId, createdAt: { $gte: monthStart, $lte: now } } },
+      { $group: { _id: GROUP_KEYS.day, ...TOTALS_GROUP } },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return {
+      daily: toTotals(rows.find(row => row._id === today)),
+      monthly: toTotals(sumTotals(rows)),
+      days: rows.map(row => ({ date: String(row._id), ...toTotals(row) })),
+    };
+  }
+
+  /**
+   * Usage across users for a period, grouped by user, model, content type or day
+   * Groups are ordered by cost, then total tokens, highest first (days in date order)
+   */
+  public async getRollup(
+    query: UsageRollupQuery
+  ): Promise<{ totals: UsageTotals; rows: UsageRollupRow[]; total: number }> {
+    const [result] = await UsageRecord.aggregate<{
+      rows: RawTotals[];
+      count: { total: number }[];
+      totals: RawTotals[];
+    }>([
+      { $match: { createdAt: { $gte: query.startDate, $lte: query.endDate } } },
+      {
+        $facet: {
+          rows: [
+            { $group: { _id: GROUP_KEYS[query.groupBy], ...TOTALS_GROUP } },
+            { $addFields: { totalTokens: { $add: ['$inputTokens', '$outputTokens'] } } },
+            {
+              $sort:
+                query.groupBy === 'day' ? { _id: 1 } : { costUsd: -1, totalTokens: -1, _id: 1 },
+            },
+            { $skip: (query.page - 1) * query.limit },
+            { $limit: query.limit },
+          ],
+          count: [{ $group: { _id: GROUP_KEYS[query.groupBy] } }, { $count: 'total' }],
+          totals: [{ $group: { _id: null, ...TOTALS_GROUP } }],
+        },
+      },
+    ]);
+
+    const rows: UsageRollupRow[] = result.rows.map(row => ({
+      key: String(row._id),
+      ...toTotals(row),
+    }));
+
+    if (query.groupBy === 'user') {
+      const ids = rows.map(row => row.key).filter(id => mongoose.isValidObjectId(id));
+      const users = await User.find({ _id: { $in: ids } })
+        .select('email')
+        .lean();
+      const emails = new Map(users.map(user => [user._id.toString(), user.email]));
+      rows.forEach(row => {
+        row.email = emails.get(row.key);
+      });
+    }
+
+    return {
+      totals: toTotals(result.totals[0]),
+      rows,
+      total: result.count[0]?.total || 0,
+    };
+  }
+}
+
+// Export singleton instance for easy use
+export const usageService = UsageService.getInstance();
@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { User } from '../models';
+import { AuthenticatedUser } from '../types/auth';
+import { CACHE } from '../utils/constants';
+import { cacheService } from './core/cache/cache.service';
+
+// How long a loaded user is trusted from memory before re-reading it (seconds)
+const USER_CACHE_TTL = 30;
+
+/**
+ * User Service
+ * Resolves the user behind an access token, with a short-lived cache keyed by user id.
+ * Anything that changes a user's status, role, plan, budget, verification or token version
+ * must call invalidateUser so the change applies on the next request.
+ */
+export class UserService {
+  private static instance: UserService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): UserService {
+    if (!UserService.instance) {
+      UserService.instance = new UserService();
+    }
+    return UserService.instance;
+  }
+
+  /**
+   * Load the user for an authenticated request, or null if it no longer exists
+   */
+  public async getAuthUser(userId: string): Promise<AuthenticatedUser | null> {
+    const key = this.userKey(userId);
+    const cached = cacheService.getFromCache<AuthenticatedUser>(key);
+    if (cached) {
+      // The cache doesn't clone, so hand out a copy requests can't mutate
+      return { ...cached };
+    }
+
+    if (!mongoose.isValidObjectId(userId)) {
+      return null;
+    }
+
+    const user = await User.findById(userId)
+      .select('email firstName lastName role plan monthlyBudgetUsd isActive isEmailVerified tokenVersion')
+      .lean();
+
+    if (!user) {
+      return null;
+    }
+
+    const authUser: AuthenticatedUser = {
+      id: user._id.toString(),
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      plan: user.plan,
+      monthlyBudgetUsd: user.monthlyBudgetUsd ?? null,
+      isActive: user.isActive,
+      isEmailVerified: user.isEmailVerified,
+      tokenVersion: user.tokenVersion || 0,
+    };
+
+    cacheService.saveToCache(key, authUser, { expiresIn: USER_CACHE_TTL });
+
+    return { ...authUser };
+  }
+
+  /**
+   * Drop the cached user so the next request reads it from the database
+   */
+  public invalidateUser(userId: string): void {
+    cacheService.deleteFromCache(this.userKey(userId));
+  }
+
+  private userKey(userId: string): string {
+    return `${CACHE.KEYS.USER_PROFILE}auth:${userId}`;
+  }
+}
+
+// Export singleton instance for easy use
+export const userService = UserService.getInstance();
@@ -0,0 +1,406 @@
+import { createHmac, randomBytes } from 'crypto';
+import config from '../config';
+import { IJob } from '../models/mongodb/Job';
+import { IWebhook, Webhook, WebhookScope } from '../models/mongodb/Webhook';
+import { IWebhookDelivery, WebhookDelivery } from '../models/mongodb/WebhookDelivery';
+import { TIME, USER_PERMISSIONS, WebhookEvent } from '../utils/constants';
+import { RequestError } from '../utils/errors';
+import { generateUUID } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+import { resolvesToInternalAddress } from '../utils/network';
+import { hasPermission } from '../utils/permissions';
+import { jobQueueService } from './jobQueue.service';
+import { userService } from './user.service';
+
+export const WEBHOOK_DELIVERY_JOB_TYPE = 'webhook.delivery';
+
+// Backoff between delivery attempts
+const DELIVERY_BACKOFF = { baseDelayMs: 30 * 1000, maxDelayMs: TIME.HOUR };
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  scope?: WebhookScope;
+}
+
+export interface WebhookUpdate {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface WebhookView {
+  id: string;
+  userId: string;
+  url: string;
+  events: WebhookEvent[];
+  scope: WebhookScope;
+  description: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDeliveryView {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: IWebhookDelivery['status'];
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  redeliveryOf: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Webhook Service
+ * Users (and admins, for every user's events) register endpoints for events such as
+ * analysis.completed. Each event is saved as a delivery per matching webhook and sent by
+ * the job queue: a signed JSON POST, retried with exponential backoff until the endpoint
+ * answers 2xx or WEBHOOK_MAX_ATTEMPTS is reached. Deliveries are kept as a log and can be
+ * redelivered.
+ *
+ * Webhooks receiving every user's events only get them while their owner is an active admin;
+ * this is checked when an event is queued and again when it's delivered.
+ *
+ * Receivers verify X-Webhook-Signature, "sha256=" + the hex HMAC-SHA256 of
+ * `${X-Webhook-Timestamp}.${body}` with the webhook's secret, and should reject old timestamps.
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+
+  private constructor() {
+    jobQueueService.registerHandler(WEBHOOK_DELIVERY_JOB_TYPE, job => this.deliver(job));
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Register a webhook; the signing secret is only returned here
+   */
+  public async createWebhook(
+    userId: string,
+    input: WebhookInput
+  ): Promise<{ webhook: WebhookView; secret: string }> {
+    const count = await Webhook.countDocuments({ userId });
+    if (count >= config.webhooks.maxPerUser) {
+      throw new RequestError(`You can register at most ${config.webhooks.maxPerUser} webhooks`);
+    }
+
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+    const webhook = await Webhook.create({
+      id: generateUUID(),
+      userId,
+      url: input.url,
+      events: input.events,
+      description: input.description || '',
+      scope: input.scope || 'user',
+      secret,
+    });
+
+    return { webhook: this.toView(webhook), secret };
+  }
+
+  public async listWebhooks(userId: string): Promise<WebhookView[]> {
+    const webhooks = await Webhook.find({ userId }).sort({ createdAt: -1 });
+    return webhooks.map(webhook => this.toView(webhook));
+  }
+
+  public async getWebhook(id: string): Promise<WebhookView | null> {
+    const webhook = await Webhook.findOne({ id });
+    return webhook ? this.toView(webhook) : null;
+  }
+
+  public async updateWebhook(id: string, update: WebhookUpdate): Promise<WebhookView | null> {
+    const webhook = await Webhook.findOneAndUpdate(
+      { id },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    return webhook ? this.toView(webhook) : null;
+  }
+
+  /**
+   * Delete a webhook; its pending deliveries fail and its delivery log expires as usual
+   */
+  public async deleteWebhook(id: string): Promise<boolean> {
+    const result = await Webhook.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Turn off a user's webhooks, e.g. when the account is deactivated
+   * With scope 'all', only those receiving every user's events (when an admin is demoted)
+   */
+  public async disableWebhooksOfUser(userId: string, scope?: WebhookScope): Promise<number> {
+    const result = await Webhook.updateMany(
+      { userId, isActive: true, ...(scope ? { scope } : {}) },
+      { $set: { isActive: false } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delete every webhook of a user whose account is deleted
+   */
+  public async deleteWebhooksOfUser(userId: string): Promise<number> {
+    const result = await Webhook.deleteMany({ userId });
+    return result.deletedCount;
+  }
+
+  /**
+   * A webhook's deliveries, newest first
+   */
+  public async listDeliveries(
+    webhookId: string,
+    options: { skip: number; limit: number }
+  ): Promise<{ deliveries: WebhookDeliveryView[]; total: number }> {
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find({ webhookId })
+        .sort({ createdAt: -1 })
+        .skip(options.skip)
+        .limit(options.limit),
+      WebhookDelivery.countDocuments({ webhookId }),
+    ]);
+
+    return { deliveries: deliveries.map(delivery => this.toDeliveryView(delivery)), total };
+  }
+
+  /**
+   * Send a delivery's event again as a new delivery with the same event ID
+   */
+  public async redeliver(
+    webhookId: string,
+    deliveryId: string
+  ): Promise<WebhookDeliveryView | null> {
+    const original = await WebhookDelivery.findOne({ id: deliveryId, webhookId });
+    if (!original) {
+      return null;
+    }
+
+    const delivery = await this.createDelivery(
+      { id: original.webhookId, userId: original.userId },
+      original.eventId,
+      original.event,
+      original.payload,
+      original.id
+    );
+
+    return this.toDeliveryView(delivery);
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it: the user's own and those
+   * receiving every user's events. Events without a user (e.g. dashboard.refreshed) go to
+   * all subscribed webhooks.
+   * Never throws, so a webhook problem can't fail the work that raised the event.
+   */
+  public async emit(
+    event: WebhookEvent,
+    userId: string | null,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const filter: Record<string, unknown> = { events: event, isActive: true };
+      if (userId) {
+        filter.$or = [{ userId }, { scope: 'all' }];
+      }
+
+      const found = await Webhook.find(filter).select('id userId scope');
+      const allowed = await Promise.all(found.map(webhook => this.canReceive(webhook)));
+      const webhooks = found.filter((_, index) => allowed[index]);
+      if (webhooks.length === 0) {
+        return;
+      }
+
+      const eventId = generateUUID();
+      const payload = { id: eventId, event, createdAt: new Date().toISOString(), data };
+
+      await Promise.all(
+        webhooks.map(webhook => this.createDelivery(webhook, eventId, event, payload))
+      );
+    } catch (error) {
+      logger.error('Failed to queue webhook event', {
+        event,
+        userId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private async createDelivery(
+    webhook: Pick<IWebhook, 'id' | 'userId'>,
+    eventId: string,
+    event: WebhookEvent,
+    payload: Record<string, unknown>,
+    redeliveryOf: string | null = null
+  ): Promise<IWebhookDelivery> {
+    const delivery = await WebhookDelivery.create({
+      id: generateUUID(),
+      webhookId: webhook.id,
+      userId: webhook.userId,
+      eventId,
+      event,
+      payload,
+      redeliveryOf,
+      expiresAt: new Date(Date.now() + config.webhooks.deliveryRetentionDays * TIME.DAY),
+    });
+
+    await jobQueueService.enqueue(
+      WEBHOOK_DELIVERY_JOB_TYPE,
+      webhook.userId,
+      { deliveryId: delivery.id },
+      { maxAttempts: config.webhooks.maxAttempts, backoff: DELIVERY_BACKOFF }
+    );
+
+    return delivery;
+  }
+
+  /**
+   * Send one attempt of a delivery
+   * Throws when the attempt failed and there are attempts left, so the queue retries it
+   */
+  private async deliver(job: IJob): Promise<void> {
+    const delivery = await WebhookDelivery.findOne({ id: job.payload.deliveryId });
+    if (!delivery || delivery.status !== 'pending') {
+      return;
+    }
+
+    const webhook = await Webhook.findOne({ id: delivery.webhookId }).select('+secret');
+    if (!webhook || !webhook.isActive) {
+      delivery.status = 'failed';
+      delivery.error = 'Webhook was deleted or disabled';
+      await delivery.save();
+      return;
+    }
+    if (!(await this.canReceive(webhook))) {
+      delivery.status = 'failed';
+      delivery.error = "Webhook owner can no longer receive every user's events";
+      await delivery.save();
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      if (await resolvesToInternalAddress(webhook.url)) {
+        throw new Error('Endpoint resolves to an internal address');
+      }
+
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Buflite-Webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${this.sign(webhook.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+      });
+      await response.body?.cancel();
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    delivery.attempts = job.attempts;
+    delivery.lastAttemptAt = new Date();
+    delivery.durationMs = Date.now() - startedAt;
+    delivery.responseStatus = responseStatus;
+    delivery.error = error;
+
+    if (!error) {
+      delivery.status = 'succeeded';
+      delivery.deliveredAt = delivery.lastAttemptAt;
+    } else if (job.attempts >= job.maxAttempts) {
+      delivery.status = 'failed';
+    }
+
+    await delivery.save();
+
+    if (error && delivery.status === 'pending') {
+      throw new Error(`Webhook delivery failed: ${error}`);
+    }
+  }
+
+  /**
+   * Whether a webhook may still receive events: those receiving every user's events need
+   * an active owner with admin permission
+   */
+  private async canReceive(webhook: Pick<IWebhook, 'userId' | 'scope'>): Promise<boolean> {
+    if (webhook.scope !== 'all') {
+      return true;
+    }
+
+    const owner = await userService.getAuthUser(webhook.userId);
+    return Boolean(owner?.isActive && hasPermission(owner.role, USER_PERMISSIONS.ADMIN));
+  }
+
+  private sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  private toView(webhook: IWebhook): WebhookView {
+    return {
+      id: webhook.id,
+      userId: webhook.userId,
+      url: webhook.url,
+      events: webhook.events,
+      scope: webhook.scope,
+      description: webhook.description,
+      isActive: webhook.isActive,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    };
+  }
+
+  private toDeliveryView(delivery: IWebhookDelivery): WebhookDeliveryView {
+    return {
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      durationMs: delivery.durationMs,
+      lastAttemptAt: delivery.lastAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      redeliveryOf: delivery.redeliveryOf,
+      createdAt: delivery.createdAt,
+    };
+  }
+}
+
+// Export singleton instance for easy use
+export const webhookService = WebhookService.getInstance();
@@ -0,0 +1,508 @@
+/**
+ * Analysis Result Types
+ * Zod schemas for the JSON the model returns for content and video analyses and dashboard
+ * trends, mirroring contentAnalysisMock, videoAnalysisMock and dashboardMock, with the
+ * TypeScript types inferred from them.
+ *
+ * Schemas are loose: the headline scores each section is known by are required, details
+ * are optional, and keys the prompt adds later are kept rather than rejected.
+ */
+
+import { z } from 'zod';
+
+// Scores the model gives on a 0-1 scale
+const unitScore = z.number().min(0).max(1);
+
+const level = z.enum(['low', 'medium', 'high']);
+
+const impactFactor = z.looseObject({
+  factor: z.string(),
+  impact: z.string(),
+  reasoning: z.string().optional(),
+});
+
+const range = z.looseObject({
+  min: z.number(),
+  max: z.number(),
+});
+
+const recommendation = z.looseObject({
+  type: z.string(),
+  priority: level,
+  category: z.string().optional(),
+  title: z.string(),
+  description: z.string().optional(),
+  implementation: z.string().optional(),
+  expected_impact: z.string().optional(),
+  icon: z.string().optional(),
+});
+
+const analysisMetadata = z.looseObject({
+  analyzed_at: z.string().optional(),
+  processing_time: z.number().optional(),
+  ai_confidence: unitScore.optional(),
+  analysis_version: z.string().optional(),
+});
+
+/**
+ * Content (post) analysis
+ */
+export const contentAnalysisSchema = z.looseObject({
+  sentiment: z.looseObject({
+    // -1 (negative) to 1 (positive)
+    score: z.number().min(-1).max(1),
+    label: z.string(),
+    confidence: unitScore.optional(),
+    emotions: z.array(z.looseObject({ type: z.string(), intensity: unitScore })).default([]),
+  }),
+  virality: z.looseObject({
+    score: unitScore,
+    factors: z.array(impactFactor).default([]),
+    predicted_engagement: z
+      .looseObject({
+        likes: range.optional(),
+        shares: range.optional(),
+        comments: range.optional(),
+      })
+      .optional(),
+  }),
+  brand: z
+    .looseObject({
+      voice_consistency: unitScore.optional(),
+      tone: z.string().optional(),
+      formality_level: unitScore.optional(),
+      brand_alignment: z
+        .looseObject({
+          score: unitScore,
+          deviations: z.array(z.string()).default([]),
+        })
+        .optional(),
+    })
+    .optional(),
+  quality: z.looseObject({
+    readability_score: unitScore,
+    grammar_score: unitScore,
+    clarity_score: unitScore,
+    spelling_errors: z.array(z.unknown()).default([]),
+    grammar_issues: z
+      .array(
+        z.looseObject({
+          issue: z.string(),
+          correction: z.string().optional(),
+          position: z.number().optional(),
+        })
+      )
+      .default([]),
+  }),
+  platform_analysis: z
+    .looseObject({
+      character_efficiency: unitScore.optional(),
+      hashtag_optimization: z
+        .looseObject({
+          current_hashtags: z.array(z.string()).default([]),
+          suggested_hashtags: z.array(z.string()).default([]),
+          hashtag_strategy: z.string().optional(),
+        })
+        .optional(),
+      optimal_length: z
+        .looseObject({
+          current: z.number(),
+          recommended: z.number(),
+          reasoning: z.string().optional(),
+        })
+        .optional(),
+      formatting_suggestions: z
+        .array(z.looseObject({ type: z.string(), suggestion: z.string() }))
+        .default([]),
+    })
+    .optional(),
+  audience: z
+    .looseObject({
+      target_demographic: z
+        .looseObject({
+          age_group: z.string().optional(),
+          interests: z.array(z.string()).default([]),
+          professional_level: z.string().optional(),
+        })
+        .optional(),
+      accessibility_score: unitScore.optional(),
+      inclusivity_check: z
+        .looseObject({
+          score: unitScore,
+          flags: z.array(z.unknown()).default([]),
+        })
+        .optional(),
+    })
+    .optional(),
+  timing: z
+    .looseObject({
+      optimal_post_times: z
+        .array(
+          z.looseObject({
+            time: z.string(),
+            day: z.string(),
+            reasoning: z.string().optional(),
+            engagement_boost: z.number().optional(),
+          })
+        )
+        .default([]),
+      seasonality_relevance: unitScore.optional(),
+      trending_alignment: z
+        .array(z.looseObject({ trend: z.string(), relevance: unitScore }))
+        .default([]),
+    })
+    .optional(),
+  risk: z.looseObject({
+    overall_risk: level,
+    factors: z
+      .array(
+        z.looseObject({
+          type: z.string(),
+          severity: level,
+          description: z.string().optional(),
+          mitigation: z.string().optional(),
+        })
+      )
+      .default([]),
+    compliance_check: z.record(z.string(), z.boolean()).optional(),
+  }),
+  recommendations: z.array(recommendation).default([]),
+  competitive: z
+    .looseObject({
+      uniqueness_score: unitScore.optional(),
+      similar_content_detected: z.boolean().optional(),
+      differentiation_opportunities: z.array(z.string()).default([]),
+      market_gap_analysis: z.string().optional(),
+    })
+    .optional(),
+  authenticity: z
+    .looseObject({
+      score: unitScore,
+      factors: z.array(impactFactor).default([]),
+    })
+    .optional(),
+  controversy_potential: z
+    .looseObject({
+      score: unitScore,
+      triggers: z.array(z.string()).default([]),
+      debate_likelihood: z.string().optional(),
+      management_strategy: z.string().optional(),
+    })
+    .optional(),
+  conversion_potential: z
+    .looseObject({
+      score: unitScore,
+      intent_signals: z
+        .array(z.looseObject({ signal: z.string(), strength: unitScore }))
+        .default([]),
+      optimization_suggestions: z.array(z.string()).default([]),
+    })
+    .optional(),
+  context_intelligence: z
+    .looseObject({
+      style_intention_score: unitScore.optional(),
+      cultural_relevance: unitScore.optional(),
+      industry_alignment: unitScore.optional(),
+    })
+    .optional(),
+  analysis_metadata: analysisMetadata
+    .extend({
+      content_length: z.number().optional(),
+      platform: z.string().optional(),
+    })
+    .optional(),
+});
+
+const platformScore = z.looseObject({
+  score: unitScore,
+});
+
+/**
+ * Video (script) analysis
+ */
+export const videoAnalysisSchema = z.looseObject({
+  delivery: z
+    .looseObject({
+      speaking_pace: z
+        .looseObject({
+          estimated_duration: z.string().optional(),
+          word_count: z.number().optional(),
+          optimal_wpm: z.number().optional(),
+          current_pace_rating: unitScore.optional(),
+          pace_variance: z.record(z.string(), z.number()).optional(),
+          difficult_sections: z.array(z.looseObject({ text: z.string() })).default([]),
+        })
+        .optional(),
+      readability_for_speech: z
+        .looseObject({
+          score: unitScore,
+          sentence_complexity: unitScore.optional(),
+          breath_points: z.number().optional(),
+          tongue_twisters: z.array(z.looseObject({ phrase: z.string() })).default([]),
+          transitions: z
+            .looseObject({
+              smooth_count: z.number().optional(),
+              awkward_count: z.number().optional(),
+              suggestions: z.array(z.looseObject({})).default([]),
+            })
+            .optional(),
+        })
+        .optional(),
+      energy_flow: z
+        .looseObject({
+          overall_score: unitScore,
+          energy_curve: z
+            .array(z.looseObject({ timestamp: z.string(), energy: unitScore }))
+            .default([]),
+          monotone_risk_sections: z.array(z.looseObject({})).default([]),
+        })
+        .optional(),
+    })
+    .optional(),
+  engagement: z.looseObject({
+    hook_strength: z.looseObject({
+      score: unitScore,
+      first_15_seconds: z.string().optional(),
+      attention_grabbers: z
+        .array(
+          z.looseObject({ type: z.string(), text: z.string(), effectiveness: unitScore.optional() })
+        )
+        .default([]),
+      improvement_suggestions: z.array(z.string()).default([]),
+    }),
+    retention_prediction: z.looseObject({
+      overall_score: unitScore,
+      drop_off_risks: z
+        .array(
+          z.looseObject({
+            timestamp: z.string(),
+            risk_level: unitScore,
+            reason: z.string().optional(),
+            suggestion: z.string().optional(),
+          })
+        )
+        .default([]),
+      engagement_boosters: z.array(z.looseObject({ timestamp: z.string() })).default([]),
+    }),
+    call_to_action: z
+      .looseObject({
+        presence: z.boolean(),
+        strength: unitScore.optional(),
+        placement: z.string().optional(),
+        clarity: unitScore.optional(),
+        urgency: unitScore.optional(),
+        suggestions: z.array(z.string()).default([]),
+      })
+      .optional(),
+  }),
+  platform_optimization: z
+    .looseObject({
+      youtube: platformScore.optional(),
+      tiktok: platformScore.optional(),
+      linkedin: platformScore.optional(),
+      instagram_reels: platformScore.optional(),
+    })
+    .optional(),
+  structure: z
+    .looseObject({
+      narrative_flow: z
+        .looseObject({
+          score: unitScore,
+          story_arc: z.string().optional(),
+          pacing: z.string().optional(),
+          logical_progression: unitScore.optional(),
+          gaps: z.array(z.looseObject({})).default([]),
+        })
+        .optional(),
+      content_density: z
+        .looseObject({
+          information_per_minute: z.number().optional(),
+          cognitive_load: z.string().optional(),
+          digestibility: unitScore.optional(),
+          suggestions: z.array(z.string()).default([]),
+        })
+        .optional(),
+      memorability: z
+        .looseObject({
+          score: unitScore,
+          key_takeaways: z.number().optional(),
+          quotable_moments: z
+            .array(z.looseObject({ text: z.string(), shareability: unitScore.optional() }))
+            .default([]),
+        })
+        .optional(),
+    })
+    .optional(),
+  teleprompter_readiness: z
+    .looseObject({
+      overall_score: unitScore,
+      difficulty_rating: z.string().optional(),
+      formatting_needs: z.looseObject({}).optional(),
+      practice_recommendations: z.looseObject({}).optional(),
+    })
+    .optional(),
+  ai_recommendations: z.array(recommendation).default([]),
+  quality: z.looseObject({
+    authenticity_score: unitScore,
+    voice_consistency: unitScore,
+    message_clarity: unitScore,
+    emotional_resonance: unitScore,
+    technical_quality: z
+      .looseObject({
+        grammar_score: unitScore.optional(),
+        vocabulary_appropriateness: unitScore.optional(),
+        tone_consistency: unitScore.optional(),
+        filler_word_risk: unitScore.optional(),
+        unclear_references: z.array(z.string()).default([]),
+      })
+      .optional(),
+  }),
+  predicted_performance: z.looseObject({
+    completion_rate: unitScore,
+    engagement_rate: unitScore,
+    share_probability: unitScore,
+    audience_segments: z
+      .array(
+        z.looseObject({
+          segment: z.string(),
+          comprehension: unitScore.optional(),
+          engagement: unitScore.optional(),
+          retention: unitScore.optional(),
+        })
+      )
+      .default([]),
+  }),
+  analysis_metadata: analysisMetadata
+    .extend({
+      script_length: z.number().optional(),
+      estimated_video_length: z.string().optional(),
+      focus_area: z.string().optional(),
+    })
+    .optional(),
+});
+
+const regionTrendsSchema = z.looseObject({
+  trending_topics: z.array(
+    z.looseObject({
+      topic: z.string(),
+      platforms: z.array(z.string()).default([]),
+      engagement_score: unitScore.optional(),
+      trend_velocity: z.string().optional(),
+      demographics: z.array(z.string()).default([]),
+      content_types: z.array(z.string()).default([]),
+      duration_prediction: z.string().optional(),
+    })
+  ),
+  hashtags: z.record(z.string(), z.array(z.looseObject({ tag: z.string() }))).optional(),
+  content_insights: z
+    .looseObject({
+      viral_formats: z.array(z.looseObject({ format: z.string() })).default([]),
+      peak_posting_times: z
+        .array(z.looseObject({ platform: z.string(), time: z.string() }))
+        .default([]),
+      content_gaps: z.array(z.looseObject({ topic: z.string() })).default([]),
+    })
+    .optional(),
+  platform_updates: z.array(z.looseObject({ platform: z.string() })).default([]),
+  creator_opportunities: z.array(z.looseObject({ niche: z.string() })).default([]),
+  regional_specifics: z.looseObject({}).optional(),
+  analysis_metadata: z.looseObject({}).optional(),
+  forecasts: z
+    .looseObject({
+      trends: z.array(z.looseObject({ trend: z.string() })).default([]),
+      events: z.array(z.looseObject({ event: z.string() })).default([]),
+      tags: z.array(z.looseObject({ tag: z.string() })).default([]),
+    })
+    .optional(),
+});
+
+/**
+ * Dashboard trends, keyed by region code (e.g. ng, uk, us)
+ */
+export const dashboardTrendsSchema = z
+  .record(z.string(), regionTrendsSchema)
+  .refine(regions => Object.keys(regions).length > 0, 'Expected at least one region');
+
+/**
+ * Comparison of variants of one post, numbered from 1 in the order they were sent
+ * Winners and score deltas are worked out from the scores rather than asked for
+ */
+export const comparisonSchema = z.looseObject({
+  variants: z
+    .array(
+      z.looseObject({
+        variant: z.number().int().min(1),
+        scores: z.looseObject({
+          sentiment: z.number().min(-1).max(1),
+          virality: unitScore,
+          quality: unitScore,
+        }),
+        strengths: z.array(z.string()).default([]),
+        weaknesses: z.array(z.string()).default([]),
+      })
+    )
+    .min(1),
+  // Why the variants score as they do on each dimension
+  dimensions: z.record(z.string(), z.string()).optional(),
+  summary: z.string().optional(),
+  merged_rewrite: z.looseObject({
+    content: z.string().min(1),
+    rationale: z.string().optional(),
+    borrowed: z.array(z.looseObject({ variant: z.number(), element: z.string() })).default([]),
+  }),
+});
+
+export type ContentAnalysis = z.infer<typeof contentAnalysisSchema>;
+export type VideoAnalysis = z.infer<typeof videoAnalysisSchema>;
+export type DashboardTrends = z.infer<typeof dashboardTrendsSchema>;
+export type ComparisonAnalysis = z.infer<typeof comparisonSchema>;
+export type AnalysisData = ContentAnalysis | VideoAnalysis;
+export type RiskLevel = z.infer<typeof level>;
+
+/**
+ * Headline scores of an analysis, stored alongside it and indexed for queries and charts
+ * Scores an analysis type doesn't have are null
+ */
+export interface AnalysisScores {
+  // -1 to 1
+  sentiment: number | null;
+  virality: number | null;
+  quality: number | null;
+  risk: RiskLevel | null;
+}
+
+export type ComparisonDimension = 'sentiment' | 'virality' | 'quality';
+
+/**
+ * Stored result of a comparison: the model's scores with each variant's difference from the
+ * first variant, and the best variant on each dimension and overall
+ */
+export interface ComparisonResult {
+  variants: Array<{
+    variant: number;
+    scores: Record<ComparisonDimension, number>;
+    deltas: Record<ComparisonDimension, number>;
+    strengths: string[];
+    weaknesses: string[];
+  }>;
+  winners: Record<ComparisonDimension | 'overall', number>;
+  dimensions: Record<string, string>;
+  summary: string;
+  merged_rewrite: ComparisonAnalysis['merged_rewrite'];
+}
+
+export const ANALYSIS_SCHEMAS = {
+  content: contentAnalysisSchema,
+  video: videoAnalysisSchema,
+} as const;
+
+export type AnalysisType = keyof typeof ANALYSIS_SCHEMAS;
+
+// Every prompt's expected output, including dashboard trends and comparisons that aren't analysis results
+export const OUTPUT_SCHEMAS = {
+  ...ANALYSIS_SCHEMAS,
+  dashboard: dashboardTrendsSchema,
+  comparison: comparisonSchema,
+} as const;
+
+export type OutputType = keyof typeof OUTPUT_SCHEMAS;
@@ -4,6 +4,7 @@
 
 import { Request } from 'express';
 import { UserRole } from '../utils/constants';
+import { AuthenticatedUser } from './auth';
 
 /**
  * Pagination Types
@@ -99,11 +100,7 @@ export interface JWTPayload {
  * Extended Request Types
  */
 export interface AuthenticatedRequest extends Request {
-  user: {
-    id: string;
-    email: string;
-    role: UserRole;
-  };
+  user: AuthenticatedUser;
   requestId?: string;
 }
 
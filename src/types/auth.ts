@@ -2,7 +2,7 @@
  * Authentication Related Types
  */
 
-import { UserRole, UserStatus } from '../utils/constants';
+import { PlanName, UserRole, UserStatus } from '../utils/constants';
 
 /**
  * User Authentication Data Transfer Objects
@@ -12,7 +12,6 @@ export interface RegisterRequestDTO {
   lastName: string;
   email: string;
   password: string;
-  role?: UserRole;
 }
 
 export interface LoginRequestDTO {
@@ -50,7 +49,35 @@ export interface UpdateProfileRequestDTO {
   lastName?: string;
   phone?: string;
   avatar?: string;
-  preferences?: UserPreferences;
+  bio?: string;
+  preferences?: UpdatePreferencesRequestDTO;
+}
+
+export interface UpdatePreferencesRequestDTO {
+  theme?: ProfilePreferences['theme'];
+  language?: string;
+  notifications?: Partial<ProfilePreferences['notifications']>;
+}
+
+export interface ChangeEmailRequestDTO {
+  email: string;
+  password: string;
+}
+
+export interface DeleteAccountRequestDTO {
+  password: string;
+}
+
+export interface ChangeRoleRequestDTO {
+  role: UserRole;
+}
+
+export interface ChangePlanRequestDTO {
+  plan: PlanName;
+}
+
+export interface ChangeBudgetRequestDTO {
+  monthlyBudgetUsd: number | null;
 }
 
 /**
@@ -88,6 +115,18 @@ export interface RefreshTokenResponseDTO {
   tokens: TokenPairDTO;
 }
 
+/**
+ * Profile preferences as stored on the user
+ */
+export interface ProfilePreferences {
+  theme: 'light' | 'dark' | 'system';
+  language: string;
+  notifications: {
+    email: boolean;
+    push: boolean;
+  };
+}
+
 /**
  * User Preferences
  */
@@ -154,6 +193,22 @@ export interface VerificationTokenPayload {
   exp: number;
 }
 
+/**
+ * Authenticated user attached to the request by authenticateToken
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  plan?: PlanName;
+  monthlyBudgetUsd?: number | null;
+  isActive: boolean;
+  isEmailVerified: boolean;
+  tokenVersion: number;
+}
+
 /**
  * Session Types
  */
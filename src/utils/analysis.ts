@@ -0,0 +1,284 @@
+/**
+ * Analysis Result Utilities
+ * Extract JSON from model output, validate it against the analysis schemas and derive the
+ * indexed headline scores and comparison winners
+ */
+
+import { ZodType } from 'zod';
+import {
+  ANALYSIS_SCHEMAS,
+  AnalysisData,
+  AnalysisScores,
+  AnalysisType,
+  ComparisonAnalysis,
+  ComparisonDimension,
+  ComparisonResult,
+  ContentAnalysis,
+  OUTPUT_SCHEMAS,
+  OutputType,
+  VideoAnalysis,
+} from '../types/analysis';
+
+export type AnalysisValidation<T = AnalysisData> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+// Code fence around the whole answer, e.g. ```json ... ```
+const FENCE_PATTERN = /```(?:json)?\s*([\s\S]*?)```/i;
+
+/**
+ * Whether analyses of this chat type have a schema (dashboard trends don't)
+ */
+export const isAnalysisType = (type: string): type is AnalysisType => {
+  return Object.prototype.hasOwnProperty.call(ANALYSIS_SCHEMAS, type);
+};
+
+/**
+ * Whether a prompt type has an output schema
+ */
+export const isOutputType = (type: string): type is OutputType => {
+  return Object.prototype.hasOwnProperty.call(OUTPUT_SCHEMAS, type);
+};
+
+const validate = <T>(schema: ZodType<T>, data: unknown): AnalysisValidation<T> => {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => {
+      const path = issue.path.join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    }),
+  };
+};
+
+/**
+ * Validate parsed model output for an analysis type
+ * Errors are "path: message" strings, e.g. "virality.score: Too big: expected number to be <=1"
+ */
+export const validateAnalysis = (type: AnalysisType, data: unknown): AnalysisValidation => {
+  return validate<AnalysisData>(ANALYSIS_SCHEMAS[type], data);
+};
+
+/**
+ * Validate parsed model output for any prompt type, dashboard trends included
+ */
+export const validateOutput = (type: OutputType, data: unknown): AnalysisValidation<unknown> => {
+  return validate<unknown>(OUTPUT_SCHEMAS[type], data);
+};
+
+/**
+ * Parse the JSON object in model output
+ * Models sometimes wrap it in a code fence or add a sentence before or after it, so the
+ * fenced block, or else the text from the first "{" to the last "}", is parsed
+ */
+export const extractJson = (
+  text: string
+): { success: true; data: unknown } | { success: false; error: string } => {
+  const fenced = FENCE_PATTERN.exec(text);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    return { success: false, error: 'Response does not contain a JSON object' };
+  }
+
+  try {
+    return { success: true, data: JSON.parse(candidate.slice(start, end + 1)) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Response is not valid JSON: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+};
+
+/**
+ * Reads top-level members of a JSON object as the model streams it, so each section
+ * (e.g. sentiment or virality) can be shown as soon as it's complete
+ * Feed it the text generated so far; text before the first "{" (e.g. a code fence) is
+ * skipped. A shorter text than last time means the call was retried, so it starts over.
+ */
+export class JsonSectionScanner {
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private memberStart = -1;
+
+  /**
+   * Sections completed since the last call
+   */
+  public push(text: string): Array<{ section: string; data: unknown }> {
+    if (text.length < this.position) {
+      this.reset();
+    }
+
+    const sections: Array<{ section: string; data: unknown }> = [];
+
+    for (; this.position < text.length; this.position++) {
+      const char = text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.depth > 0) {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+        if (this.depth === 1) {
+          this.memberStart = this.position + 1;
+        }
+      } else if ((char === ',' && this.depth === 1) || (char === '}' && this.depth === 1)) {
+        const section = this.parseMember(text.slice(this.memberStart, this.position));
+        if (section) {
+          sections.push(section);
+        }
+        this.memberStart = this.position + 1;
+        if (char === '}') {
+          this.depth = 0;
+        }
+      } else if (char === '}' || char === ']') {
+        this.depth = Math.max(0, this.depth - 1);
+      }
+    }
+
+    return sections;
+  }
+
+  public reset(): void {
+    this.position = 0;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.memberStart = -1;
+  }
+
+  private parseMember(member: string): { section: string; data: unknown } | null {
+    if (!member.trim()) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(`{${member}}`);
+      const [section] = Object.keys(parsed);
+      return section === undefined ? null : { section, data: parsed[section] };
+    } catch {
+      return null;
+    }
+  }
+}
+
+const average = (values: number[]): number => {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1000) / 1000;
+};
+
+/**
+ * Headline scores of a validated analysis
+ * Video analyses have no sentiment or risk; their virality is the predicted share probability
+ */
+export const getAnalysisScores = (type: AnalysisType, data: AnalysisData): AnalysisScores => {
+  if (type === 'video') {
+    const video = data as VideoAnalysis;
+    return {
+      sentiment: null,
+      virality: video.predicted_performance.share_probability,
+      quality: average([
+        video.quality.authenticity_score,
+        video.quality.voice_consistency,
+        video.quality.message_clarity,
+        video.quality.emotional_resonance,
+      ]),
+      risk: null,
+    };
+  }
+
+  const content = data as ContentAnalysis;
+  return {
+    sentiment: content.sentiment.score,
+    virality: content.virality.score,
+    quality: average([
+      content.quality.readability_score,
+      content.quality.grammar_score,
+      content.quality.clarity_score,
+    ]),
+    risk: content.risk.overall_risk,
+  };
+};
+
+const COMPARISON_DIMENSIONS: ComparisonDimension[] = ['sentiment', 'virality', 'quality'];
+
+/**
+ * Deltas from the first variant and the winners of a validated comparison of `count` variants
+ * Winners have the highest score (ties go to the earlier variant); overall averages the three
+ * dimensions, with sentiment moved to 0-1. Variants the model didn't score are errors, so the
+ * answer can be repaired.
+ */
+export const toComparisonResult = (
+  data: ComparisonAnalysis,
+  count: number
+): AnalysisValidation<ComparisonResult> => {
+  const variants = Array.from({ length: count }, (_, index) =>
+    data.variants.find(variant => variant.variant === index + 1)
+  );
+
+  const missing = variants.flatMap((variant, index) => (variant ? [] : [index + 1]));
+  if (missing.length > 0) {
+    return {
+      success: false,
+      errors: missing.map(number => `variants: variant ${number} is missing`),
+    };
+  }
+
+  const scored = variants as ComparisonAnalysis['variants'];
+  const baseline = scored[0].scores;
+  const overall = scored.map(({ scores }) =>
+    average([(scores.sentiment + 1) / 2, scores.virality, scores.quality])
+  );
+
+  const best = (values: number[]): number =>
+    values.reduce((winner, value, index) => (value > values[winner] ? index : winner), 0) + 1;
+
+  return {
+    success: true,
+    data: {
+      variants: scored.map(variant => ({
+        variant: variant.variant,
+        scores: {
+          sentiment: variant.scores.sentiment,
+          virality: variant.scores.virality,
+          quality: variant.scores.quality,
+        },
+        deltas: Object.fromEntries(
+          COMPARISON_DIMENSIONS.map(dimension => [
+            dimension,
+            Math.round((variant.scores[dimension] - baseline[dimension]) * 1000) / 1000,
+          ])
+        ) as Record<ComparisonDimension, number>,
+        strengths: variant.strengths,
+        weaknesses: variant.weaknesses,
+      })),
+      winners: {
+        sentiment: best(scored.map(variant => variant.scores.sentiment)),
+        virality: best(scored.map(variant => variant.scores.virality)),
+        quality: best(scored.map(variant => variant.scores.quality)),
+        overall: best(overall),
+      },
+      dimensions: data.dimensions ?? {},
+      summary: data.summary ?? '',
+      merged_rewrite: data.merged_rewrite,
+    },
+  };
+};
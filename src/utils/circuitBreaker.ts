@@ -0,0 +1,140 @@
+/**
+ * Circuit Breaker
+ * Stops calling an unhealthy upstream after repeated failures, failing fast with a
+ * ServiceError (503) instead. After a cool-down one trial call is let through: if it
+ * succeeds the circuit closes again, otherwise it stays open for another cool-down.
+ */
+
+import { ServiceError } from './errors';
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call, in ms
+  resetTimeoutMs: number;
+  // Whether an error says the upstream is unhealthy; others (e.g. bad requests) don't count
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  openedAt: Date | null;
+  // Seconds until a trial call is allowed, while open
+  retryAfter: number | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Run a call through the breaker
+   * @throws ServiceError without calling fn while the circuit is open
+   */
+  public async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onError(error);
+      throw error;
+    }
+  }
+
+  public getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.getState(),
+      failures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt) : null,
+      retryAfter: this.getState() === 'open' ? this.getRetryAfter() : null,
+    };
+  }
+
+  /**
+   * Close the circuit and clear the failure count
+   */
+  public reset(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Current state; an open circuit is half open once its cool-down has passed
+   */
+  private getState(): CircuitState {
+    if (this.state === 'open' && this.openedAt && this.getRetryAfter() === 0) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  private beforeCall(): void {
+    const state = this.getState();
+
+    if (state === 'open' || (state === 'half_open' && this.trialInFlight)) {
+      throw new ServiceError(
+        `${this.name} is temporarily unavailable, please try again later`,
+        this.getRetryAfter() || Math.ceil(this.options.resetTimeoutMs / 1000)
+      );
+    }
+
+    if (state === 'half_open') {
+      this.state = 'half_open';
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`${this.name} circuit closed`);
+    }
+    this.reset();
+  }
+
+  private onError(error: unknown): void {
+    const isFailure = this.options.isFailure ? this.options.isFailure(error) : true;
+
+    if (!isFailure) {
+      // The upstream answered, so a trial call still shows it's back
+      if (this.state === 'half_open') {
+        this.onSuccess();
+      }
+      return;
+    }
+
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.warn(`${this.name} circuit opened`, {
+        failures: this.failures,
+        resetTimeoutMs: this.options.resetTimeoutMs,
+      });
+    }
+  }
+
+  private getRetryAfter(): number {
+    const elapsed = Date.now() - (this.openedAt || 0);
+    return Math.max(0, Math.ceil((this.options.resetTimeoutMs - elapsed) / 1000));
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Concurrency Utilities
+ * Run async work over a list without starting all of it at once
+ */
+
+/**
+ * Map items with at most `limit` calls running at a time
+ * Results keep the order of the items; the first rejection rejects the whole map
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, () => worker())
+  );
+
+  return results;
+};
@@ -112,6 +112,74 @@ export const USER_PERMISSIONS = {
   MODERATE: 'moderate'
 } as const;
 
+// Permissions granted to each role
+export const ROLE_PERMISSIONS: Record<UserRole, readonly UserPermission[]> = {
+  [USER_ROLES.GUEST]: [USER_PERMISSIONS.READ],
+  [USER_ROLES.USER]: [
+    USER_PERMISSIONS.READ,
+    USER_PERMISSIONS.WRITE,
+    USER_PERMISSIONS.UPDATE,
+    USER_PERMISSIONS.DELETE
+  ],
+  [USER_ROLES.MODERATOR]: [
+    USER_PERMISSIONS.READ,
+    USER_PERMISSIONS.WRITE,
+    USER_PERMISSIONS.UPDATE,
+    USER_PERMISSIONS.DELETE,
+    USER_PERMISSIONS.MODERATE
+  ],
+  [USER_ROLES.ADMIN]: [
+    USER_PERMISSIONS.READ,
+    USER_PERMISSIONS.WRITE,
+    USER_PERMISSIONS.UPDATE,
+    USER_PERMISSIONS.DELETE,
+    USER_PERMISSIONS.MODERATE,
+    USER_PERMISSIONS.ADMIN
+  ],
+  [USER_ROLES.SUPER_ADMIN]: Object.values(USER_PERMISSIONS)
+};
+
+// Role rank, a role can only manage roles ranked below it
+export const ROLE_HIERARCHY: Record<UserRole, number> = {
+  [USER_ROLES.GUEST]: 0,
+  [USER_ROLES.USER]: 1,
+  [USER_ROLES.MODERATOR]: 2,
+  [USER_ROLES.ADMIN]: 3,
+  [USER_ROLES.SUPER_ADMIN]: 4
+};
+
+// Subscription Plans
+export const PLANS = {
+  FREE: 'free',
+  PRO: 'pro',
+  TEAM: 'team'
+} as const;
+
+// Features a plan can unlock
+export const PLAN_FEATURES = {
+  WEB_SEARCH: 'web_search'
+} as const;
+
+// Content types usage quotas are tracked for
+export const QUOTA_CONTENT_TYPES = ['content', 'video'] as const;
+
+// Types of saved analyses: the quota content types and comparisons of their variants
+export const CHAT_TYPES = [...QUOTA_CONTENT_TYPES, 'comparison'] as const;
+
+// Variants one comparison can contain
+export const COMPARISON_VARIANTS = {
+  MIN: 2,
+  MAX: 5
+} as const;
+
+// Events webhooks can subscribe to
+export const WEBHOOK_EVENTS = [
+  'analysis.completed',
+  'analysis.failed',
+  'dashboard.refreshed',
+  'quota.exhausted'
+] as const;
+
 // User Status
 export const USER_STATUS = {
   ACTIVE: 'active',
@@ -144,9 +212,55 @@ export const AUTH = {
     MAX_CONCURRENT_SESSIONS: 5,
     INACTIVITY_TIMEOUT: 30 * TIME.MINUTE,
     ABSOLUTE_TIMEOUT: 8 * TIME.HOUR
+  },
+  LOCKOUT: {
+    MAX_LOGIN_ATTEMPTS: 5,
+    BASE_LOCK_DURATION: TIME.MINUTE,
+    MAX_LOCK_DURATION: TIME.DAY
   }
 } as const;
 
+// Audit Log Constants
+export const AUDIT = {
+  // Events shown to users in their own security activity
+  SECURITY_ACTIONS: [
+    'USER_REGISTERED',
+    'USER_LOGIN',
+    'LOGIN_FAILED',
+    'ACCOUNT_LOCKED',
+    'ACCOUNT_UNLOCKED',
+    'USER_LOGOUT',
+    'USER_LOGOUT_ALL',
+    'USER_FORCE_LOGOUT',
+    'REFRESH_TOKEN_REUSE_DETECTED',
+    'EMAIL_VERIFIED',
+    'EMAIL_CHANGED',
+    'PASSWORD_RESET_REQUESTED',
+    'PASSWORD_RESET_COMPLETED',
+    'PASSWORD_CHANGED',
+    'USER_ROLE_CHANGED',
+    'USER_ACTIVATED',
+    'USER_DEACTIVATED'
+  ],
+  EXPORT_MAX_ROWS: 10000,
+  EXPORT_FORMATS: ['csv', 'ndjson']
+} as const;
+
+// AI Pricing (USD per million tokens), matched by model name prefix
+// "default" is used for models not listed; override with AI_MODEL_PRICING
+export const AI_MODEL_PRICING: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+  'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-3-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'claude-2': { inputPerMillion: 8, outputPerMillion: 24 },
+  default: { inputPerMillion: 3, outputPerMillion: 15 }
+};
+
 // Email Configuration
 export const EMAIL = {
   TYPES: {
@@ -416,6 +530,12 @@ export const DEFAULTS = {
 export type HttpStatus = typeof HTTP_STATUS[keyof typeof HTTP_STATUS];
 export type Environment = typeof ENVIRONMENTS[keyof typeof ENVIRONMENTS];
 export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES];
+export type UserPermission = typeof USER_PERMISSIONS[keyof typeof USER_PERMISSIONS];
 export type UserStatus = typeof USER_STATUS[keyof typeof USER_STATUS];
+export type PlanName = typeof PLANS[keyof typeof PLANS];
+export type PlanFeature = typeof PLAN_FEATURES[keyof typeof PLAN_FEATURES];
+export type QuotaContentType = typeof QUOTA_CONTENT_TYPES[number];
+export type ChatType = typeof CHAT_TYPES[number];
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
 export type EmailType = typeof EMAIL.TYPES[keyof typeof EMAIL.TYPES];
 export type ApiVersion = typeof API.VERSIONS[keyof typeof API.VERSIONS];
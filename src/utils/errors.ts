@@ -150,6 +150,20 @@ export class ExternalServiceError extends AppError {
   }
 }
 
+/**
+ * Analysis Output Error - 502 Bad Gateway
+ * The model's answer couldn't be used, even after asking it to repair it
+ */
+export class AnalysisOutputError extends ExternalServiceError {
+  public errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid analysis output: ${errors.slice(0, 3).join('; ')}`, 'anthropic');
+    this.errors = errors;
+    this.name = 'AnalysisOutputError';
+  }
+}
+
 /**
  * Async Handler Wrapper
  * Automatically catches async errors and passes them to error middleware
@@ -8,16 +8,27 @@ import crypto from 'crypto';
 import { logger } from '../utils/logger';
 import config from '../config';
 import { AppError } from '../utils/errors';
+import { generateUUID } from '../utils/idGenerator';
 
 export interface TokenPayload {
   userId: string;
   email: string;
   role: string;
   type: 'access' | 'refresh';
+  jti?: string;
+  family?: string;
+  tokenVersion?: number;
   iat?: number;
   exp?: number;
 }
 
+export interface TokenSubject {
+  userId: string;
+  email: string;
+  role: string;
+  tokenVersion?: number;
+}
+
 export interface TokenPair {
   accessToken: string;
   refreshToken: string;
@@ -36,16 +47,17 @@ export class JWTUtils {
   /**
    * Generate access token
    */
-  static generateAccessToken(payload: { userId: string; email: string; role: string }): string {
+  static generateAccessToken(payload: TokenSubject): string {
     try {
       const tokenPayload = {
         userId: payload.userId,
         email: payload.email,
         role: payload.role,
-        type: 'access' as const
+        type: 'access' as const,
+        tokenVersion: payload.tokenVersion || 0
       };
 
-      return jwt.sign(tokenPayload, config.jwt.secret, { expiresIn: '24h' });
+      return jwt.sign(tokenPayload, config.jwt.secret, { expiresIn: '24h', jwtid: generateUUID() });
     } catch (error) {
       logger.error('Error generating access token:', error);
       throw new AppError('Failed to generate access token', 500);
@@ -54,17 +66,24 @@ export class JWTUtils {
 
   /**
    * Generate refresh token
+   * Each refresh token gets a unique jti and belongs to a token family, which is
+   * carried over on rotation so a reused token can invalidate the whole chain
    */
-  static generateRefreshToken(payload: { userId: string; email: string; role: string }): string {
+  static generateRefreshToken(
+    payload: TokenSubject,
+    family: string = generateUUID()
+  ): string {
     try {
       const tokenPayload = {
         userId: payload.userId,
         email: payload.email,
         role: payload.role,
-        type: 'refresh' as const
+        type: 'refresh' as const,
+        family,
+        tokenVersion: payload.tokenVersion || 0
       };
 
-      return jwt.sign(tokenPayload, config.jwt.secret, { expiresIn: '7d' });
+      return jwt.sign(tokenPayload, config.jwt.secret, { expiresIn: '7d', jwtid: generateUUID() });
     } catch (error) {
       logger.error('Error generating refresh token:', error);
       throw new AppError('Failed to generate refresh token', 500);
@@ -74,10 +93,13 @@ export class JWTUtils {
   /**
    * Generate token pair (access + refresh)
    */
-  static generateTokenPair(payload: { userId: string; email: string; role: string }): TokenPair {
+  static generateTokenPair(
+    payload: TokenSubject,
+    family?: string
+  ): TokenPair {
     try {
       const accessToken = JWTUtils.generateAccessToken(payload);
-      const refreshToken = JWTUtils.generateRefreshToken(payload);
+      const refreshToken = JWTUtils.generateRefreshToken(payload, family);
 
       // Calculate expiration times in seconds
       const accessExpiresIn = JWTUtils.getExpirationTime(config.jwt.expire);
@@ -1,4 +1,4 @@
-import { config } from '@/config';
+import { config, configWarnings } from '@/config';
 import fs from 'fs';
 import path from 'path';
 import winston from 'winston';
@@ -52,6 +52,7 @@ const logger = winston.createLogger({
     ),
   }));
 
+configWarnings.forEach(warning => logger.warn(warning));
 
 // Stream object for Morgan HTTP logger
 export const loggerStream = {
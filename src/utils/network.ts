@@ -0,0 +1,69 @@
+/**
+ * Network Utilities
+ * Keep server-side requests to user-supplied URLs (e.g. webhooks) off internal addresses
+ */
+
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+// Loopback, link-local, private (RFC 1918), unique-local and other non-public ranges
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges
+const internalAddresses = new BlockList();
+internalAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+internalAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+internalAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+internalAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+internalAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+internalAddresses.addSubnet('224.0.0.0', 3, 'ipv4');
+internalAddresses.addAddress('::', 'ipv6');
+internalAddresses.addAddress('::1', 'ipv6');
+internalAddresses.addSubnet('64:ff9b::', 96, 'ipv6');
+internalAddresses.addSubnet('fc00::', 7, 'ipv6');
+internalAddresses.addSubnet('fe80::', 10, 'ipv6');
+internalAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not public
+ * Anything that isn't an IP address counts as internal
+ */
+export const isInternalAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 0) {
+    return true;
+  }
+  return internalAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+// URL hostname without IPv6 brackets or a trailing root dot
+const getHostname = (url: string): string =>
+  new URL(url).hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+
+/**
+ * Whether a URL's host is an internal address or a name that always points at one
+ * Other names are only known after DNS resolution; see resolvesToInternalAddress
+ */
+export const hasInternalHost = (url: string): boolean => {
+  const hostname = getHostname(url);
+  if (isIP(hostname)) {
+    return isInternalAddress(hostname);
+  }
+  return hostname === 'localhost' || hostname.endsWith('.localhost');
+};
+
+/**
+ * Whether any address a URL's host resolves to is internal
+ * Checked right before connecting, since DNS can change after the URL was accepted
+ */
+export const resolvesToInternalAddress = async (url: string): Promise<boolean> => {
+  if (hasInternalHost(url)) {
+    return true;
+  }
+
+  const addresses = await lookup(getHostname(url), { all: true, verbatim: true });
+  return addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address));
+};
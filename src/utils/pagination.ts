@@ -0,0 +1,91 @@
+/**
+ * Pagination Utilities
+ * Parse page/limit/sort query params and build PaginationMeta for list endpoints,
+ * and encode the opaque cursors used by cursor-paginated lists
+ */
+
+import { PaginationMeta, PaginationQuery } from '../types/api';
+import { PAGINATION } from './constants';
+import { RequestError } from './errors';
+
+export interface PaginationOptions {
+  page: number;
+  limit: number;
+  skip: number;
+  sort: Record<string, 1 | -1>;
+}
+
+/**
+ * Parse pagination params from a request query
+ * Out-of-range values are clamped and unknown sort fields fall back to the default
+ */
+export const parsePagination = (
+  query: PaginationQuery & Record<string, unknown>,
+  allowedSortFields: string[] = [PAGINATION.DEFAULT_SORT]
+): PaginationOptions => {
+  const page = Math.max(1, parseInt(String(query.page), 10) || PAGINATION.DEFAULT_PAGE);
+  const limit = Math.min(
+    PAGINATION.MAX_LIMIT,
+    Math.max(PAGINATION.MIN_LIMIT, parseInt(String(query.limit), 10) || PAGINATION.DEFAULT_LIMIT)
+  );
+
+  const sortField =
+    typeof query.sort === 'string' && allowedSortFields.includes(query.sort)
+      ? query.sort
+      : PAGINATION.DEFAULT_SORT;
+  const order =
+    query.order === 'asc' || query.order === 'desc' ? query.order : PAGINATION.DEFAULT_ORDER;
+
+  return {
+    page,
+    limit,
+    skip: (page - 1) * limit,
+    sort: { [sortField]: order === 'asc' ? 1 : -1 },
+  };
+};
+
+/**
+ * Build pagination metadata for a page of results
+ */
+export const buildPaginationMeta = (page: number, limit: number, total: number): PaginationMeta => {
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+};
+
+/**
+ * Position after the last item of a page, for lists ordered by createdAt then _id (newest first)
+ */
+export interface Cursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export const encodeCursor = (cursor: Cursor): string => {
+  return Buffer.from(`${cursor.createdAt.toISOString()}|${cursor.id}`).toString('base64url');
+};
+
+/**
+ * Decode a cursor from a query param
+ * Throws RequestError for anything encodeCursor didn't produce
+ */
+export const decodeCursor = (value: string): Cursor => {
+  const [createdAt, id] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+  const date = new Date(createdAt);
+
+  if (!id || isNaN(date.getTime())) {
+    throw new RequestError('Invalid cursor');
+  }
+
+  return { createdAt: date, id };
+};
@@ -0,0 +1,43 @@
+/**
+ * Role and Permission Utilities
+ * Helpers built on USER_ROLES, USER_PERMISSIONS and ROLE_PERMISSIONS
+ */
+
+import {
+  ROLE_HIERARCHY,
+  ROLE_PERMISSIONS,
+  USER_ROLES,
+  UserPermission,
+  UserRole,
+} from './constants';
+
+/**
+ * Check that a value is a known role
+ */
+export const isValidRole = (role: unknown): role is UserRole => {
+  return typeof role === 'string' && (Object.values(USER_ROLES) as string[]).includes(role);
+};
+
+/**
+ * Permissions granted to a role (none for unknown roles)
+ */
+export const getRolePermissions = (role: string): readonly UserPermission[] => {
+  return isValidRole(role) ? ROLE_PERMISSIONS[role] : [];
+};
+
+/**
+ * Check whether a role has a permission
+ */
+export const hasPermission = (role: string, permission: UserPermission): boolean => {
+  return getRolePermissions(role).includes(permission);
+};
+
+/**
+ * Check whether a role ranks strictly above another
+ */
+export const outranks = (role: string, otherRole: string): boolean => {
+  if (!isValidRole(role) || !isValidRole(otherRole)) {
+    return false;
+  }
+  return ROLE_HIERARCHY[role] > ROLE_HIERARCHY[otherRole];
+};
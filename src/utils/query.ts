@@ -0,0 +1,29 @@
+/**
+ * Query Param Utilities
+ * Parse optional query string values for list and report endpoints
+ */
+
+import { RequestError } from './errors';
+
+/**
+ * Parse an optional ISO date query param
+ */
+export const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new RequestError(`${field} must be a valid date`);
+  }
+
+  return date;
+};
+
+/**
+ * Optional string query param
+ */
+export const parseString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
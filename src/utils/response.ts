@@ -63,6 +63,21 @@ export const CreatedResponse = <T = any>(
   return res.status(201).json(createResponse(true, 201, message, data));
 };
 
+/**
+ * Accepted Response - 202 Accepted
+ * For work that continues in the background
+ * @param res Express response object
+ * @param message Success message
+ * @param data Response data (optional)
+ */
+export const AcceptedResponse = <T = any>(
+  res: Response,
+  message: string = 'Request accepted',
+  data?: T
+): Response => {
+  return res.status(202).json(createResponse(true, 202, message, data));
+};
+
 /**
  * No Content Response - 204 No Content
  * @param res Express response object
@@ -190,6 +205,18 @@ export const InternalServerErrorResponse = <T = any>(
   return res.status(500).json(createResponse(false, 500, undefined, data, message));
 };
 
+/**
+ * Bad Gateway Response - 502 Bad Gateway
+ * @param res Express response object
+ * @param message Error message
+ */
+export const BadGatewayResponse = (
+  res: Response,
+  message: string = 'Bad gateway'
+): Response => {
+  return res.status(502).json(createResponse(false, 502, undefined, undefined, message));
+};
+
 /**
  * Service Unavailable Response - 503 Service Unavailable
  * @param res Express response object
@@ -233,6 +260,7 @@ export const ServerErrorResponse = InternalServerErrorResponse;
 export const ResponseUtils = {
   SuccessResponse,
   CreatedResponse,
+  AcceptedResponse,
   NoContentResponse,
   ErrorResponse,
   ValidationErrorResponse,
@@ -242,6 +270,7 @@ export const ResponseUtils = {
   ConflictResponse,
   TooManyRequestsResponse,
   InternalServerErrorResponse,
+  BadGatewayResponse,
   ServiceUnavailableResponse,
   GenericResponse,
   BadRequestResponse,
@@ -0,0 +1,63 @@
+/**
+ * Retry Utilities
+ * Retry failed async calls with jittered exponential backoff
+ */
+
+import { logger } from './logger';
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  maxRetries: number;
+  // Delay cap of the first retry, doubled for each retry after it, in ms
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Whether the call is worth retrying after this error
+  isRetryable: (error: unknown) => boolean;
+  // Delay the upstream asked for (e.g. a Retry-After header), in ms
+  getRetryAfterMs?: (error: unknown) => number | null;
+  // Named in retry logs
+  label?: string;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay before a retry: a random delay up to the exponential cap ("full jitter"), so
+ * clients that failed together don't retry together; an upstream's Retry-After wins
+ */
+export const getRetryDelay = (
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  retryAfterMs: number | null = null
+): number => {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const delay = Math.round(Math.random() * cap);
+
+  return retryAfterMs === null
+    ? delay
+    : Math.min(options.maxDelayMs, Math.max(delay, retryAfterMs));
+};
+
+/**
+ * Call fn until it succeeds, it fails with an error that isn't retryable, or the retries run out
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, options, options.getRetryAfterMs?.(error) ?? null);
+      logger.warn(`${options.label || 'Call'} failed, retrying`, {
+        attempt: attempt + 1,
+        maxRetries: options.maxRetries,
+        delayMs: delay,
+        error: error instanceof Error ? error.message : error,
+      });
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,34 @@
+/**
+ * Server-Sent Events Utilities
+ * Open an event stream on a response and write named events to it
+ */
+
+import { Response } from 'express';
+
+/**
+ * Switch the response to an event stream
+ * Proxies are asked not to buffer it, so events reach the client as they're sent
+ */
+export const openEventStream = (res: Response): void => {
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+};
+
+/**
+ * Write one event; does nothing once the client has gone
+ */
+export const sendEvent = (res: Response, event: string, data: unknown): void => {
+  if (res.writableEnded || res.destroyed) {
+    return;
+  }
+
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // Compression buffers output until flushed
+  (res as Response & { flush?: () => void }).flush?.();
+};
@@ -282,6 +282,13 @@ export const sanitizers = {
   alphanumericOnly: (str: string): string => {
     if (!str || typeof str !== 'string') return '';
     return str.replace(/[^a-zA-Z0-9]/g, '');
+  },
+
+  /**
+   * Escape regex special characters so user input can be matched literally
+   */
+  escapeRegex: (str: string): string => {
+    return typeof str === 'string' ? str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : '';
   }
 };
 
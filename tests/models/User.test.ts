@@ -0,0 +1,89 @@
+import { User } from '../../src/models';
+import { AUTH, TIME } from '../../src/utils/constants';
+
+const { MAX_LOGIN_ATTEMPTS, BASE_LOCK_DURATION, MAX_LOCK_DURATION } = AUTH.LOCKOUT;
+
+describe('User lockout', () => {
+  let user: InstanceType<typeof User>;
+  let storedAttempts: number;
+
+  beforeEach(() => {
+    user = new User({ email: 'user@example.com', firstName: 'Test', lastName: 'User' });
+    storedAttempts = 0;
+
+    // Stand-in for the atomic $inc on the stored user
+    jest
+      .spyOn(User, 'findByIdAndUpdate')
+      .mockImplementation((() => Promise.resolve({ loginAttempts: ++storedAttempts })) as any);
+    jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+  });
+
+  const fail = async (times: number) => {
+    for (let i = 0; i < times; i++) {
+      await user.incrementLoginAttempts();
+    }
+  };
+
+  const lockDuration = () => user.lockUntil!.getTime() - Date.now();
+
+  it('does not lock the account before MAX_LOGIN_ATTEMPTS failures', async () => {
+    await fail(MAX_LOGIN_ATTEMPTS - 1);
+
+    expect(user.loginAttempts).toBe(MAX_LOGIN_ATTEMPTS - 1);
+    expect(user.lockUntil).toBeUndefined();
+    expect(user.isAccountLocked()).toBe(false);
+  });
+
+  it('locks the account on the MAX_LOGIN_ATTEMPTS-th failure', async () => {
+    await fail(MAX_LOGIN_ATTEMPTS);
+
+    expect(user.isAccountLocked()).toBe(true);
+    expect(lockDuration()).toBeGreaterThan(BASE_LOCK_DURATION - TIME.SECOND);
+    expect(lockDuration()).toBeLessThanOrEqual(BASE_LOCK_DURATION);
+    expect(User.updateOne).toHaveBeenCalledWith(
+      { _id: user._id },
+      { $set: { lockUntil: user.lockUntil } }
+    );
+  });
+
+  it('doubles the lock with each further failure', async () => {
+    await fail(MAX_LOGIN_ATTEMPTS + 2);
+
+    expect(lockDuration()).toBeGreaterThan(4 * BASE_LOCK_DURATION - TIME.SECOND);
+    expect(lockDuration()).toBeLessThanOrEqual(4 * BASE_LOCK_DURATION);
+  });
+
+  it('caps the lock at MAX_LOCK_DURATION', async () => {
+    storedAttempts = 100;
+    await fail(1);
+
+    expect(lockDuration()).toBeGreaterThan(MAX_LOCK_DURATION - TIME.SECOND);
+    expect(lockDuration()).toBeLessThanOrEqual(MAX_LOCK_DURATION);
+  });
+
+  it('counts failures recorded by other requests', async () => {
+    storedAttempts = MAX_LOGIN_ATTEMPTS - 1;
+    await fail(1);
+
+    expect(user.loginAttempts).toBe(MAX_LOGIN_ATTEMPTS);
+    expect(user.isAccountLocked()).toBe(true);
+  });
+
+  it('is no longer locked once the lock has passed', () => {
+    user.lockUntil = new Date(Date.now() - 1);
+
+    expect(user.isAccountLocked()).toBe(false);
+  });
+
+  it('clears failures and the lock on reset', async () => {
+    await fail(MAX_LOGIN_ATTEMPTS);
+    await user.resetLoginAttempts();
+
+    expect(user.loginAttempts).toBe(0);
+    expect(user.isAccountLocked()).toBe(false);
+    expect(User.updateOne).toHaveBeenLastCalledWith(
+      { _id: user._id },
+      { $set: { loginAttempts: 0 }, $unset: { lockUntil: 1 } }
+    );
+  });
+});
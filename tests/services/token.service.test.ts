@@ -0,0 +1,145 @@
+import { Request } from 'express';
+import { IRefreshToken, User } from '../../src/models';
+import { auditLog } from '../../src/services/auditLog.service';
+import { tokenService } from '../../src/services/token.service';
+import { AuthenticationError } from '../../src/utils/errors';
+import { JWTUtils } from '../../src/utils/jwt';
+
+const req = { ip: '203.0.113.7', get: () => 'jest' } as unknown as Request;
+
+/**
+ * Keeps one user's stored refresh tokens and token version in memory, applying the
+ * updates the token service makes to them
+ */
+const fakeUserStore = (user: InstanceType<typeof User>) => {
+  const store = { refreshTokens: [] as IRefreshToken[], tokenVersion: 0 };
+
+  jest
+    .spyOn(User, 'findById')
+    .mockImplementation((() =>
+      Promise.resolve(Object.assign(user, { tokenVersion: store.tokenVersion }))) as any);
+
+  jest.spyOn(User, 'updateOne').mockImplementation(((filter: any, update: any) => {
+    const tokenHash = filter['refreshTokens.tokenHash'];
+    if (tokenHash && !store.refreshTokens.some(token => token.tokenHash === tokenHash)) {
+      return Promise.resolve({ modifiedCount: 0 });
+    }
+
+    const pull = update.$pull?.refreshTokens;
+    if (pull) {
+      store.refreshTokens = store.refreshTokens.filter(token =>
+        pull.tokenHash
+          ? token.tokenHash !== pull.tokenHash
+          : pull.family
+            ? token.family !== pull.family
+            : token.expiresAt >= pull.expiresAt.$lt
+      );
+    }
+    if (update.$push?.refreshTokens) {
+      store.refreshTokens.push(...update.$push.refreshTokens.$each);
+    }
+    if (update.$inc?.tokenVersion) {
+      store.tokenVersion += update.$inc.tokenVersion;
+      store.refreshTokens = update.$set.refreshTokens;
+    }
+
+    return Promise.resolve({ modifiedCount: 1 });
+  }) as any);
+
+  return store;
+};
+
+describe('TokenService', () => {
+  let user: InstanceType<typeof User>;
+  let store: ReturnType<typeof fakeUserStore>;
+
+  beforeEach(() => {
+    user = new User({
+      email: 'user@example.com',
+      firstName: 'Test',
+      lastName: 'User',
+      role: 'user',
+      isActive: true,
+    });
+    store = fakeUserStore(user);
+    jest.spyOn(auditLog, 'logFromRequest').mockResolvedValue(undefined as any);
+  });
+
+  it('stores a hashed refresh token for each issued pair', async () => {
+    const { refreshToken } = await tokenService.issueTokenPair(user, req);
+
+    expect(store.refreshTokens).toHaveLength(1);
+    expect(store.refreshTokens[0].tokenHash).toBe(JWTUtils.hashToken(refreshToken));
+    expect(store.refreshTokens[0].tokenHash).not.toBe(refreshToken);
+  });
+
+  it('rotates a refresh token into a new pair of the same family', async () => {
+    const issued = await tokenService.issueTokenPair(user, req);
+    const { tokens } = await tokenService.rotateRefreshToken(issued.refreshToken, req);
+
+    const family = (token: string) => JWTUtils.verifyRefreshToken(token).payload?.family;
+    expect(tokens.refreshToken).not.toBe(issued.refreshToken);
+    expect(family(tokens.refreshToken)).toBe(family(issued.refreshToken));
+    expect(store.refreshTokens.map(token => token.tokenHash)).toEqual([
+      JWTUtils.hashToken(tokens.refreshToken),
+    ]);
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const other = await tokenService.issueTokenPair(user, req);
+    const issued = await tokenService.issueTokenPair(user, req);
+    const { tokens } = await tokenService.rotateRefreshToken(issued.refreshToken, req);
+
+    await expect(tokenService.rotateRefreshToken(issued.refreshToken, req)).rejects.toThrow(
+      new AuthenticationError('Refresh token has been revoked')
+    );
+
+    // The token the reuse descended from is gone too; other logins are kept
+    await expect(tokenService.rotateRefreshToken(tokens.refreshToken, req)).rejects.toThrow(
+      AuthenticationError
+    );
+    expect(store.refreshTokens.map(token => token.tokenHash)).toEqual([
+      JWTUtils.hashToken(other.refreshToken),
+    ]);
+    expect(auditLog.logFromRequest).toHaveBeenCalledWith(
+      req,
+      'REFRESH_TOKEN_REUSE_DETECTED',
+      expect.any(String),
+      expect.objectContaining({ userId: user._id.toString() }),
+      user.email
+    );
+  });
+
+  it('refuses refresh tokens issued before all sessions were revoked', async () => {
+    const issued = await tokenService.issueTokenPair(user, req);
+    await tokenService.revokeAllSessions(user._id.toString());
+
+    await expect(tokenService.rotateRefreshToken(issued.refreshToken, req)).rejects.toThrow(
+      new AuthenticationError('Refresh token has been revoked')
+    );
+  });
+
+  it('refuses access tokens used as refresh tokens', async () => {
+    const { accessToken } = await tokenService.issueTokenPair(user, req);
+
+    await expect(tokenService.rotateRefreshToken(accessToken, req)).rejects.toThrow(
+      new AuthenticationError('Invalid refresh token')
+    );
+  });
+
+  it('refuses refresh tokens of a deactivated user', async () => {
+    const { refreshToken } = await tokenService.issueTokenPair(user, req);
+    user.isActive = false;
+
+    await expect(tokenService.rotateRefreshToken(refreshToken, req)).rejects.toThrow(
+      new AuthenticationError('Invalid refresh token')
+    );
+  });
+
+  it('treats access tokens from before the current token version as revoked', async () => {
+    const { accessToken } = await tokenService.issueTokenPair(user, req);
+    const payload = JWTUtils.verifyAccessToken(accessToken).payload!;
+
+    await expect(tokenService.isAccessTokenRevoked(payload, 1)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import config from '../../src/config';
+import { counterService } from '../../src/services/core/counter';
+import { DEFAULT_PLANS, PlanDefinition } from '../../src/services/plan.service';
+import { trialLimitService } from '../../src/services/trialLimit.service';
+import { webhookService } from '../../src/services/webhook.service';
+import { generateUUID } from '../../src/utils/idGenerator';
+
+jest.mock('../../src/services/webhook.service', () => ({
+  webhookService: { emit: jest.fn() },
+}));
+
+const plan: PlanDefinition = {
+  ...DEFAULT_PLANS[0],
+  quotas: {
+    content: { daily: 3, monthly: 5 },
+    video: { daily: 1, monthly: 1 },
+  },
+};
+
+describe.each(['fixed', 'rolling'] as const)('TrialLimitService with %s windows', windowType => {
+  let userId: string;
+
+  beforeAll(() => {
+    config.usage.windowType = windowType;
+  });
+
+  beforeEach(() => {
+    // Counters are kept for the whole run, so each test counts for its own user
+    userId = generateUUID();
+  });
+
+  it('uses the memory counter store', () => {
+    expect(counterService.getStoreName()).toBe('memory');
+  });
+
+  it('counts a reservation before the analysis runs', async () => {
+    const reservation = await trialLimitService.reserve(userId, 'content', plan);
+
+    expect(reservation.accepted).toBe(true);
+    expect(reservation.status).toBe('reserved');
+    expect(reservation.usage.daily.used).toBe(1);
+    expect(reservation.usage.monthly.used).toBe(1);
+    expect(reservation.usage.remaining).toBe(2);
+  });
+
+  it('keeps the count when a reservation is committed', async () => {
+    const reservation = await trialLimitService.reserve(userId, 'content', plan);
+    trialLimitService.commit(reservation);
+
+    const usage = await trialLimitService.getUsage(userId, 'content', plan);
+    expect(reservation.status).toBe('committed');
+    expect(usage.daily.used).toBe(1);
+    expect(usage.monthly.used).toBe(1);
+  });
+
+  it('gives the try back when a reservation is released', async () => {
+    const reservation = await trialLimitService.reserve(userId, 'content', plan);
+    await trialLimitService.release(reservation);
+
+    const usage = await trialLimitService.getUsage(userId, 'content', plan);
+    expect(reservation.status).toBe('released');
+    expect(usage.daily.used).toBe(0);
+    expect(usage.monthly.used).toBe(0);
+  });
+
+  it('ignores a release after commit and a second release', async () => {
+    const committed = await trialLimitService.reserve(userId, 'content', plan);
+    trialLimitService.commit(committed);
+    await trialLimitService.release(committed);
+
+    const released = await trialLimitService.reserve(userId, 'content', plan);
+    await trialLimitService.release(released);
+    await trialLimitService.release(released);
+
+    const usage = await trialLimitService.getUsage(userId, 'content', plan);
+    expect(committed.status).toBe('committed');
+    expect(usage.daily.used).toBe(1);
+  });
+
+  it('rejects a reservation once the daily quota is reached', async () => {
+    for (let i = 0; i < plan.quotas.content.daily; i++) {
+      trialLimitService.commit(await trialLimitService.reserve(userId, 'content', plan));
+    }
+
+    const reservation = await trialLimitService.reserve(userId, 'content', plan);
+    expect(reservation.accepted).toBe(false);
+    expect(reservation.status).toBe('rejected');
+    expect(reservation.exceeded).toBe('daily');
+    expect(reservation.usage.daily.used).toBe(plan.quotas.content.daily);
+  });
+
+  it('does not use up a daily try when the monthly quota is reached', async () => {
+    const monthlyOnly: PlanDefinition = {
+      ...plan,
+      quotas: { ...plan.quotas, content: { daily: 5, monthly: 1 } },
+    };
+    trialLimitService.commit(await trialLimitService.reserve(userId, 'content', monthlyOnly));
+
+    const reservation = await trialLimitService.reserve(userId, 'content', monthlyOnly);
+    expect(reservation.accepted).toBe(false);
+    expect(reservation.exceeded).toBe('monthly');
+    expect(reservation.usage.daily.used).toBe(1);
+  });
+
+  it('accepts only as many parallel reservations as the quota allows', async () => {
+    const limit = plan.quotas.content.daily;
+
+    const reservations = await Promise.all(
+      Array.from({ length: limit + 1 }, () => trialLimitService.reserve(userId, 'content', plan))
+    );
+
+    expect(reservations.filter(reservation => reservation.accepted)).toHaveLength(limit);
+    expect(reservations.filter(reservation => !reservation.accepted)).toHaveLength(1);
+
+    const usage = await trialLimitService.getUsage(userId, 'content', plan);
+    expect(usage.daily.used).toBe(limit);
+  });
+
+  it('frees quota for a new reservation when a parallel one is released', async () => {
+    const limit = plan.quotas.content.daily;
+    const reservations = await Promise.all(
+      Array.from({ length: limit }, () => trialLimitService.reserve(userId, 'content', plan))
+    );
+
+    await trialLimitService.release(reservations[0]);
+    reservations.slice(1).forEach(reservation => trialLimitService.commit(reservation));
+
+    const next = await trialLimitService.reserve(userId, 'content', plan);
+    expect(next.accepted).toBe(true);
+    expect(next.usage.daily.used).toBe(limit);
+  });
+
+  it('counts content types separately', async () => {
+    trialLimitService.commit(await trialLimitService.reserve(userId, 'video', plan));
+
+    const content = await trialLimitService.reserve(userId, 'content', plan);
+    const video = await trialLimitService.reserve(userId, 'video', plan);
+
+    expect(content.accepted).toBe(true);
+    expect(video.accepted).toBe(false);
+  });
+
+  it.each(['unknown', 'constructor', 'toString'])(
+    'gives the %s type, which has no quota on the plan, no tries',
+    async contentType => {
+      const reservation = await trialLimitService.reserve(userId, contentType, plan);
+
+      expect(reservation.accepted).toBe(false);
+      expect(reservation.usage.daily.limit).toBe(0);
+      expect(reservation.usage.monthly.limit).toBe(0);
+    }
+  );
+
+  it('emits quota.exhausted when the committed reservation used the last try', async () => {
+    const first = await trialLimitService.reserve(userId, 'video', plan);
+    trialLimitService.commit(first);
+
+    expect(webhookService.emit).toHaveBeenCalledWith(
+      'quota.exhausted',
+      userId,
+      expect.objectContaining({ contentType: 'video', period: 'daily', limit: 1 })
+    );
+  });
+
+  it('does not emit quota.exhausted while tries are left', async () => {
+    trialLimitService.commit(await trialLimitService.reserve(userId, 'content', plan));
+
+    expect(webhookService.emit).not.toHaveBeenCalled();
+  });
+});
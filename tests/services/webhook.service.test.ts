@@ -0,0 +1,172 @@
+import { createHmac } from 'crypto';
+import { IJob } from '../../src/models/mongodb/Job';
+import { Webhook } from '../../src/models/mongodb/Webhook';
+import { WebhookDelivery } from '../../src/models/mongodb/WebhookDelivery';
+import { jobQueueService } from '../../src/services/jobQueue.service';
+import { userService } from '../../src/services/user.service';
+import { webhookService } from '../../src/services/webhook.service';
+import { AuthenticatedUser } from '../../src/types/auth';
+
+const SECRET = 'whsec_test';
+
+const makeWebhook = (overrides: Record<string, unknown> = {}) => ({
+  id: 'webhook-1',
+  userId: 'owner-1',
+  url: 'https://93.184.216.34/hook',
+  scope: 'user',
+  secret: SECRET,
+  isActive: true,
+  ...overrides,
+});
+
+const makeDelivery = () => ({
+  id: 'delivery-1',
+  webhookId: 'webhook-1',
+  event: 'analysis.completed',
+  payload: { id: 'event-1', event: 'analysis.completed', data: { analysisId: 'analysis-1' } },
+  status: 'pending',
+  save: jest.fn().mockResolvedValue(undefined),
+});
+
+const makeJob = (attempts: number, maxAttempts = 3) =>
+  ({ attempts, maxAttempts, payload: { deliveryId: 'delivery-1' } }) as unknown as IJob;
+
+const owner = (role: string, isActive = true) =>
+  ({ id: 'owner-1', role, isActive }) as AuthenticatedUser;
+
+describe('WebhookService delivery', () => {
+  let delivery: ReturnType<typeof makeDelivery>;
+  let fetchMock: jest.SpyInstance;
+
+  // deliver is only called by the job queue
+  const deliver = (job: IJob) => webhookService['deliver'](job);
+
+  const useWebhook = (webhook: ReturnType<typeof makeWebhook>) => {
+    jest.spyOn(Webhook, 'findOne').mockReturnValue({
+      select: () => Promise.resolve(webhook),
+    } as any);
+  };
+
+  beforeEach(() => {
+    delivery = makeDelivery();
+    jest.spyOn(WebhookDelivery, 'findOne').mockResolvedValue(delivery as any);
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+  });
+
+  it('signs the timestamp and body with the webhook secret', async () => {
+    useWebhook(makeWebhook());
+
+    await deliver(makeJob(1));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    const timestamp = headers['X-Webhook-Timestamp'];
+    const expected = createHmac('sha256', SECRET).update(`${timestamp}.${init.body}`).digest('hex');
+
+    expect(url).toBe('https://93.184.216.34/hook');
+    expect(init.body).toBe(JSON.stringify(delivery.payload));
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+    expect(headers['X-Webhook-Id']).toBe('delivery-1');
+    expect(headers['X-Webhook-Event']).toBe('analysis.completed');
+    expect(init.redirect).toBe('manual');
+    expect(delivery.status).toBe('succeeded');
+  });
+
+  it('throws so the queue retries while attempts are left', async () => {
+    useWebhook(makeWebhook());
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+    await expect(deliver(makeJob(1))).rejects.toThrow('Endpoint responded with 500');
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: 500, attempts: 1 });
+  });
+
+  it('marks the delivery failed after the last attempt', async () => {
+    useWebhook(makeWebhook());
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+    await expect(deliver(makeJob(3))).resolves.toBeUndefined();
+    expect(delivery.status).toBe('failed');
+  });
+
+  it('does not send to an internal address', async () => {
+    useWebhook(makeWebhook({ url: 'http://169.254.169.254/latest/meta-data' }));
+
+    await expect(deliver(makeJob(3))).resolves.toBeUndefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({
+      status: 'failed',
+      error: 'Endpoint resolves to an internal address',
+    });
+  });
+
+  it("does not send every user's events once the owner is no longer an admin", async () => {
+    useWebhook(makeWebhook({ scope: 'all' }));
+    jest.spyOn(userService, 'getAuthUser').mockResolvedValue(owner('user'));
+
+    await deliver(makeJob(1));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(delivery.status).toBe('failed');
+  });
+
+  it("sends every user's events to an active admin's webhook", async () => {
+    useWebhook(makeWebhook({ scope: 'all' }));
+    jest.spyOn(userService, 'getAuthUser').mockResolvedValue(owner('admin'));
+
+    await deliver(makeJob(1));
+
+    expect(fetchMock).toHaveBeenCalled();
+    expect(delivery.status).toBe('succeeded');
+  });
+});
+
+describe('WebhookService.emit', () => {
+  beforeEach(() => {
+    jest
+      .spyOn(WebhookDelivery, 'create')
+      .mockImplementation(((data: any) => Promise.resolve(data)) as any);
+    jest.spyOn(jobQueueService, 'enqueue').mockResolvedValue({} as IJob);
+  });
+
+  const useWebhooks = (webhooks: Array<ReturnType<typeof makeWebhook>>) => {
+    jest.spyOn(Webhook, 'find').mockReturnValue({
+      select: () => Promise.resolve(webhooks),
+    } as any);
+  };
+
+  const deliveredTo = () =>
+    (WebhookDelivery.create as unknown as jest.Mock).mock.calls.map(([data]) => data.webhookId);
+
+  it('queues one delivery per webhook, skipping every-user webhooks of non-admins', async () => {
+    useWebhooks([
+      makeWebhook({ id: 'own', userId: 'user-1' }),
+      makeWebhook({ id: 'admin-all', userId: 'admin-1', scope: 'all' }),
+      makeWebhook({ id: 'demoted-all', userId: 'former-admin', scope: 'all' }),
+      makeWebhook({ id: 'inactive-all', userId: 'inactive-admin', scope: 'all' }),
+    ]);
+    jest
+      .spyOn(userService, 'getAuthUser')
+      .mockImplementation(async userId =>
+        userId === 'admin-1'
+          ? owner('admin')
+          : userId === 'inactive-admin'
+            ? owner('admin', false)
+            : owner('user')
+      );
+
+    await webhookService.emit('analysis.completed', 'user-1', { analysisId: 'analysis-1' });
+
+    expect(deliveredTo()).toEqual(['own', 'admin-all']);
+    expect(jobQueueService.enqueue).toHaveBeenCalledTimes(2);
+  });
+
+  it('never throws, so a webhook problem cannot fail the work that raised the event', async () => {
+    jest.spyOn(Webhook, 'find').mockImplementation(() => {
+      throw new Error('Database unavailable');
+    });
+
+    await expect(
+      webhookService.emit('analysis.completed', 'user-1', { analysisId: 'analysis-1' })
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Jest Setup
+ * Runs before each test file, ahead of any import of the config
+ */
+
+process.env.NODE_ENV = 'test';
+// Tests don't connect to MongoDB, so usage counters are kept in memory
+process.env.USAGE_COUNTER_STORE = 'memory';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
@@ -0,0 +1,136 @@
+import { ComparisonAnalysis } from '../../src/types/analysis';
+import { extractJson, JsonSectionScanner, toComparisonResult } from '../../src/utils/analysis';
+
+describe('extractJson', () => {
+  it('parses a bare JSON object', () => {
+    expect(extractJson('{"score": 0.5}')).toEqual({ success: true, data: { score: 0.5 } });
+  });
+
+  it('parses the object inside a code fence', () => {
+    const text = 'Here is the analysis:\n```json\n{"score": 1}\n```\nLet me know!';
+    expect(extractJson(text)).toEqual({ success: true, data: { score: 1 } });
+  });
+
+  it('parses the object between text before and after it', () => {
+    expect(extractJson('Sure. {"a": {"b": 2}} Hope that helps.')).toEqual({
+      success: true,
+      data: { a: { b: 2 } },
+    });
+  });
+
+  it('fails when there is no object', () => {
+    expect(extractJson('No JSON here')).toEqual({
+      success: false,
+      error: 'Response does not contain a JSON object',
+    });
+  });
+
+  it('fails on invalid JSON', () => {
+    const result = extractJson('{"score": }');
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/^Response is not valid JSON/);
+  });
+});
+
+describe('JsonSectionScanner', () => {
+  const json =
+    '{"sentiment": {"score": 0.4, "label": "positive"}, "tags": ["a", "b"], "note": "x}, y"}';
+
+  it('reports each top-level member once it is complete', () => {
+    const scanner = new JsonSectionScanner();
+
+    expect(scanner.push(json.slice(0, 30))).toEqual([]);
+    expect(scanner.push(json.slice(0, 52))).toEqual([
+      { section: 'sentiment', data: { score: 0.4, label: 'positive' } },
+    ]);
+    expect(scanner.push(json)).toEqual([
+      { section: 'tags', data: ['a', 'b'] },
+      { section: 'note', data: 'x}, y' },
+    ]);
+  });
+
+  it('reports the same sections when the whole text arrives at once', () => {
+    const sections = new JsonSectionScanner().push(json).map(({ section }) => section);
+    expect(sections).toEqual(['sentiment', 'tags', 'note']);
+  });
+
+  it('skips text before the object, such as a code fence', () => {
+    expect(new JsonSectionScanner().push('```json\n{"a": 1}\n```')).toEqual([
+      { section: 'a', data: 1 },
+    ]);
+  });
+
+  it('handles escaped quotes inside strings', () => {
+    expect(new JsonSectionScanner().push('{"quote": "say \\"hi\\", then {go}", "b": 2}')).toEqual([
+      { section: 'quote', data: 'say "hi", then {go}' },
+      { section: 'b', data: 2 },
+    ]);
+  });
+
+  it('starts over when the text gets shorter, as on a retried call', () => {
+    const scanner = new JsonSectionScanner();
+    scanner.push('{"a": 1, "b": 2}');
+
+    expect(scanner.push('{"c": 3,')).toEqual([{ section: 'c', data: 3 }]);
+  });
+});
+
+describe('toComparisonResult', () => {
+  const variant = (number: number, sentiment: number, virality: number, quality: number) => ({
+    variant: number,
+    scores: { sentiment, virality, quality },
+    strengths: [],
+    weaknesses: [],
+  });
+
+  const comparison = (variants: ComparisonAnalysis['variants']): ComparisonAnalysis => ({
+    variants,
+    merged_rewrite: { content: 'Merged post', borrowed: [] },
+  });
+
+  it('works out deltas from the first variant and the winner of each dimension', () => {
+    const result = toComparisonResult(
+      comparison([variant(2, 0.2, 0.9, 0.5), variant(1, 0.6, 0.4, 0.5)]),
+      2
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) {
+      return;
+    }
+
+    expect(result.data.variants.map(({ variant: number }) => number)).toEqual([1, 2]);
+    expect(result.data.variants[0].deltas).toEqual({ sentiment: 0, virality: 0, quality: 0 });
+    expect(result.data.variants[1].deltas).toEqual({
+      sentiment: -0.4,
+      virality: 0.5,
+      quality: 0,
+    });
+    expect(result.data.winners).toEqual({ sentiment: 1, virality: 2, quality: 1, overall: 2 });
+    expect(result.data.summary).toBe('');
+    expect(result.data.dimensions).toEqual({});
+  });
+
+  it('gives ties to the earlier variant', () => {
+    const result = toComparisonResult(
+      comparison([variant(1, 0.5, 0.5, 0.5), variant(2, 0.5, 0.5, 0.5)]),
+      2
+    );
+
+    expect(result.success && result.data.winners).toEqual({
+      sentiment: 1,
+      virality: 1,
+      quality: 1,
+      overall: 1,
+    });
+  });
+
+  it('fails when a variant was not scored, so the answer can be repaired', () => {
+    const result = toComparisonResult(comparison([variant(1, 0, 0.5, 0.5)]), 3);
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['variants: variant 2 is missing', 'variants: variant 3 is missing'],
+    });
+  });
+});
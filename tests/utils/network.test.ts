@@ -0,0 +1,102 @@
+import { lookup } from 'dns/promises';
+import {
+  hasInternalHost,
+  isInternalAddress,
+  resolvesToInternalAddress,
+} from '../../src/utils/network';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+describe('isInternalAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '127.8.9.10',
+    '10.0.0.1',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '::',
+    '::1',
+    '::ffff:127.0.0.1',
+    '::ffff:10.0.0.1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'ff02::1',
+  ])('treats %s as internal', address => {
+    expect(isInternalAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+    'treats %s as public',
+    address => {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  );
+
+  it('treats anything that is not an IP address as internal', () => {
+    expect(isInternalAddress('example.com')).toBe(true);
+  });
+});
+
+describe('hasInternalHost', () => {
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://[::1]:8080/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://localhost:3000/hook',
+    'http://localhost./hook',
+    'http://api.localhost/hook',
+    // Other spellings of 127.0.0.1, which URL normalizes
+    'http://2130706433/hook',
+    'http://0x7f.1/hook',
+  ])('refuses %s', url => {
+    expect(hasInternalHost(url)).toBe(true);
+  });
+
+  it.each(['https://example.com/hook', 'https://8.8.8.8/hook', 'https://[2606:4700::1111]/'])(
+    'accepts %s',
+    url => {
+      expect(hasInternalHost(url)).toBe(false);
+    }
+  );
+});
+
+describe('resolvesToInternalAddress', () => {
+  it('refuses internal hosts without resolving them', async () => {
+    await expect(resolvesToInternalAddress('http://127.0.0.1/hook')).resolves.toBe(true);
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  it('accepts a name that only resolves to public addresses', async () => {
+    mockLookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '2606:2800:220:1::1', family: 6 },
+    ]);
+
+    await expect(resolvesToInternalAddress('https://example.com/hook')).resolves.toBe(false);
+    expect(mockLookup).toHaveBeenCalledWith('example.com', { all: true, verbatim: true });
+  });
+
+  it('refuses a name with any internal address', async () => {
+    mockLookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ]);
+
+    await expect(resolvesToInternalAddress('https://rebind.example/hook')).resolves.toBe(true);
+  });
+
+  it('refuses a name without addresses', async () => {
+    mockLookup.mockResolvedValue([]);
+
+    await expect(resolvesToInternalAddress('https://empty.example/hook')).resolves.toBe(true);
+  });
+});